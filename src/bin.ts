@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import { main } from './cli'
+
+main(process.argv.slice(2)).then(
+  (code) => { process.exitCode = code },
+  (err) => {
+    process.stderr.write('wwwaxe: ' + (err instanceof Error ? err.message : String(err)) + '\n')
+    process.exitCode = 1
+  },
+)
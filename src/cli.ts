@@ -0,0 +1,327 @@
+import { readFileSync, readdirSync, statSync, existsSync, mkdirSync, writeFileSync } from 'fs'
+import type { Dirent } from 'fs'
+import { basename, dirname, join, relative, extname } from 'path'
+import { wwwaxeDetailed, withFrontmatter, WwwaxeConfigError } from './wwwaxe'
+import type { WwwaxeOptions, WwwaxeResult } from './wwwaxe'
+
+/** Boolean WwwaxeOptions, exposed as --flag / --no-flag */
+const BOOLEAN_OPTIONS = [
+  'markdown', 'core', 'stripOverlays', 'keepIds', 'keepClasses', 'keepDataAttributes', 'keepAriaHidden', 'markdownTables',
+  'markdownDefinitionLists', 'markdownDetails', 'markdownFigures', 'hydration',
+  'elementRefs', 'dropTrivialLinks',
+] as const
+
+/** String WwwaxeOptions, exposed as --flag <value> */
+const STRING_OPTIONS = ['baseUrl', 'include', 'exclude'] as const
+
+/** WwwaxeOptions with a fixed set of values, exposed as --flag <value> */
+const ENUM_OPTIONS: Record<string, readonly string[]> = {
+  forms: ['html', 'summary'],
+  linkStyle: ['inline', 'reference', 'none'],
+  images: ['keep', 'alt-only', 'drop', 'smart'],
+  output: ['markup', 'a11y', 'text'],
+}
+
+/** List WwwaxeOptions, exposed as --flag <a,b,…> (list overrides take the add-to-defaults form) */
+const LIST_OPTIONS = [
+  'frontmatterFields', 'removeTags', 'unwrapTags', 'keepTags', 'contentAttributes', 'chromeTags', 'chromeRoles',
+  'contentIds',
+] as const
+
+/** Numeric WwwaxeOptions, exposed as --flag <n> */
+const NUMBER_OPTIONS = ['maxTokens', 'maxChars'] as const
+
+/** File extensions picked up when a directory is given as input */
+const HTML_EXTENSIONS = new Set(['.html', '.htm', '.xhtml'])
+
+const USAGE = `Usage: wwwaxe [options] [file | dir | glob | -]...
+
+Strip HTML down to clean, token-efficient content. Reads stdin when no
+input is given (or for "-"). Directories are searched for .html/.htm files.
+
+Options:
+  --core                     Strip chrome and isolate the main content
+  --no-strip-overlays        In core mode, keep cookie banners and newsletter modals
+  --no-markdown              Keep HTML instead of converting to markdown
+  --output <markup|a11y|text>
+                             Emit markdown / HTML, an accessibility tree of roles and names,
+                             or plain text
+  --no-markdown-tables       Keep simple tables as HTML
+  --no-markdown-definition-lists
+                             Keep definition lists as HTML
+  --no-markdown-details      Keep details/summary as HTML
+  --no-markdown-figures      Keep figure/figcaption as HTML
+  --no-keep-ids              Strip id attributes
+  --keep-classes             Keep class attributes
+  --keep-data-attributes     Keep data-* attributes
+  --keep-aria-hidden         Keep aria-hidden="true" elements
+  --hydration                Fall back to text from SPA hydration payloads
+  --element-refs             Mark links, buttons and controls with [#n] references
+  --forms <html|summary>     Keep forms as HTML or summarize their fields
+  --link-style <inline|reference|none>
+                             Render links inline, as numbered references, or as text
+  --drop-trivial-links       Render links whose text is their URL, and #fragment links, as text
+  --images <keep|alt-only|drop|smart>
+                             Keep images, reduce them to their alt text, drop them,
+                             or drop only pixels, spacers and images without alt text
+  --include <selector>       Keep only the elements matching this CSS selector
+  --exclude <selector>       Remove the elements matching this CSS selector
+  --base-url <url>           Resolve relative URLs against this URL
+  --frontmatter-fields <list>
+                             Comma-separated frontmatter fields to emit
+  --remove-tags <list>       Also remove these tags with their children
+  --unwrap-tags <list>       Also unwrap these tags, keeping their children
+  --keep-tags <list>         Also keep these tags
+  --content-attributes <list>
+                             Also keep these attributes
+  --chrome-tags <list>       Also strip these tags as chrome in core mode
+  --chrome-roles <list>      Also strip elements with these roles in core mode
+  --content-ids <list>       Try these ids as the content root first in core mode
+  --max-tokens <n>           Trim output to about n tokens
+  --max-chars <n>            Trim output to n characters
+  -o, --out-dir <dir>        Write one output file per input instead of stdout
+  --stats                    Print raw and output sizes per input
+  -h, --help                 Show this help
+`
+
+export interface CliArgs {
+  options: WwwaxeOptions
+  inputs: string[]
+  outDir?: string
+  stats: boolean
+  help: boolean
+}
+
+export interface CliIO {
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+  readStdin: () => Promise<string>
+}
+
+/** An input document: where it came from and the path to use under --out-dir */
+interface CliInput {
+  name: string
+  outPath: string
+  read: () => Promise<string>
+}
+
+export class CliError extends Error {}
+
+function toKebab(name: string): string {
+  return name.replace(/[A-Z]/g, c => '-' + c.toLowerCase())
+}
+
+/**
+ * Parse command-line arguments into wwwaxe options and inputs
+ */
+export function parseCliArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { options: {}, inputs: [], stats: false, help: false }
+  const options = args.options as Record<string, unknown>
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined]
+    const takeValue = (): string => {
+      if (inlineValue !== undefined) return inlineValue
+      const value = argv[++i]
+      if (value === undefined) throw new CliError(flag + ' requires a value')
+      return value
+    }
+
+    if (flag === '-h' || flag === '--help') { args.help = true; continue }
+    if (flag === '--stats') { args.stats = true; continue }
+    if (flag === '-o' || flag === '--out-dir') { args.outDir = takeValue(); continue }
+    if (flag === '-' || !flag.startsWith('-')) { args.inputs.push(arg); continue }
+
+    const bool = BOOLEAN_OPTIONS.find(name => flag === '--' + toKebab(name) || flag === '--no-' + toKebab(name))
+    if (bool) {
+      options[bool] = !flag.startsWith('--no-')
+      continue
+    }
+    const str = STRING_OPTIONS.find(name => flag === '--' + toKebab(name))
+    if (str) {
+      options[str] = takeValue()
+      continue
+    }
+    const enumName = Object.keys(ENUM_OPTIONS).find(name => flag === '--' + toKebab(name))
+    if (enumName) {
+      const value = takeValue()
+      if (!ENUM_OPTIONS[enumName].includes(value)) {
+        throw new CliError(flag + ' expects one of: ' + ENUM_OPTIONS[enumName].join(', '))
+      }
+      options[enumName] = value
+      continue
+    }
+    const list = LIST_OPTIONS.find(name => flag === '--' + toKebab(name))
+    if (list) {
+      options[list] = takeValue().split(',').map(value => value.trim()).filter(Boolean)
+      continue
+    }
+    const num = NUMBER_OPTIONS.find(name => flag === '--' + toKebab(name))
+    if (num) {
+      const value = Number(takeValue())
+      if (!Number.isFinite(value) || value <= 0) throw new CliError(flag + ' expects a positive number')
+      options[num] = value
+      continue
+    }
+
+    throw new CliError('Unknown option: ' + arg)
+  }
+
+  return args
+}
+
+/**
+ * Convert a glob pattern (*, ?, **) to a regular expression over /-separated paths
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i]
+    if (c === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/'
+      source += slash ? '(?:.*/)?' : '.*'
+      i += slash ? 2 : 1
+    } else if (c === '*') {
+      source += '[^/]*'
+    } else if (c === '?') {
+      source += '[^/]'
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp('^' + source + '$')
+}
+
+/**
+ * List all files below a directory, as /-separated paths, down to `depth` levels
+ * (1 = the directory's own files)
+ */
+function walkFiles(dir: string, depth = Infinity): string[] {
+  let entries: Dirent[]
+  try {
+    entries = readdirSync(dir, { withFileTypes: true })
+  } catch (error) {
+    throw new CliError('Cannot read directory ' + dir + ': ' + (error as Error).message)
+  }
+  const files: string[] = []
+  for (const entry of entries) {
+    const path = join(dir, entry.name)
+    if (entry.isDirectory()) {
+      if (depth > 1) files.push(...walkFiles(path, depth - 1))
+    } else if (entry.isFile()) {
+      files.push(path)
+    }
+  }
+  return files.map(f => f.split('\\').join('/')).sort()
+}
+
+function fileInput(path: string, outPath: string): CliInput {
+  return { name: path, outPath, read: async () => readFileSync(path, 'utf8') }
+}
+
+/**
+ * Expand a command-line input (file, directory, glob or "-") to documents
+ */
+function resolveInput(input: string, io: CliIO): CliInput[] {
+  if (input === '-') {
+    return [{ name: 'stdin', outPath: 'stdin', read: io.readStdin }]
+  }
+
+  if (existsSync(input)) {
+    if (!statSync(input).isDirectory()) return [fileInput(input, basename(input))]
+    return walkFiles(input)
+      .filter(file => HTML_EXTENSIONS.has(extname(file).toLowerCase()))
+      .map(file => fileInput(file, relative(input, file)))
+  }
+
+  if (/[*?]/.test(input)) {
+    const pattern = input.split('\\').join('/')
+    const staticPart = pattern.slice(0, pattern.search(/[*?]/))
+    const base = staticPart.includes('/') ? staticPart.slice(0, staticPart.lastIndexOf('/')) || '/' : '.'
+    const regex = globToRegExp(pattern.startsWith('./') ? pattern.slice(2) : pattern)
+    // Walk only as deep as the pattern reaches below its static prefix
+    const rest = base === '.' && !pattern.startsWith('./') ? pattern : pattern.slice(base.length).replace(/^\//, '')
+    const depth = rest.includes('**') ? Infinity : rest.split('/').length
+    const matches = existsSync(base)
+      ? walkFiles(base, depth).filter(file => regex.test(file.startsWith('./') ? file.slice(2) : file))
+      : []
+    if (matches.length === 0) throw new CliError('No files match ' + input)
+    return matches.map(file => fileInput(file, relative(base, file)))
+  }
+
+  throw new CliError('No such file or directory: ' + input)
+}
+
+function readProcessStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    process.stdin.on('data', (chunk: Buffer) => chunks.push(chunk))
+    process.stdin.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    process.stdin.on('error', reject)
+  })
+}
+
+const processIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  readStdin: readProcessStdin,
+}
+
+/**
+ * Run the wwwaxe CLI. Returns the process exit code.
+ */
+export async function main(argv: string[], io: CliIO = processIO): Promise<number> {
+  let args: CliArgs
+  let inputs: CliInput[]
+  try {
+    args = parseCliArgs(argv)
+    if (args.help) {
+      io.stdout(USAGE)
+      return 0
+    }
+    inputs = (args.inputs.length > 0 ? args.inputs : ['-']).flatMap(input => resolveInput(input, io))
+  } catch (err) {
+    if (!(err instanceof CliError)) throw err
+    io.stderr('wwwaxe: ' + err.message + '\n')
+    return 2
+  }
+
+  const extension = args.options.output === 'a11y' || args.options.output === 'text'
+    ? '.txt'
+    : args.options.markdown === false ? '.html' : '.md'
+  const printContent = !args.outDir && !args.stats
+
+  for (const input of inputs) {
+    const html = await input.read()
+    let result: WwwaxeResult
+    try {
+      result = wwwaxeDetailed(html, args.options)
+    } catch (err) {
+      if (!(err instanceof WwwaxeConfigError)) throw err
+      io.stderr('wwwaxe: ' + err.message + '\n')
+      return 2
+    }
+    const { frontmatter, content, stats } = result
+
+    if (args.outDir) {
+      const outPath = join(args.outDir, input.outPath.replace(/\.[^./\\]*$/, '') + extension)
+      mkdirSync(dirname(outPath), { recursive: true })
+      writeFileSync(outPath, withFrontmatter(frontmatter, content) + '\n')
+    }
+
+    if (args.stats) {
+      const saved = stats.inputLength > 0 ? Math.round((1 - stats.outputLength / stats.inputLength) * 100) : 0
+      io.stdout(input.name + ': raw=' + stats.inputLength + ' output=' + stats.outputLength + ' (-' + saved + '%)\n')
+    }
+
+    if (printContent) {
+      if (inputs.length > 1) io.stdout('==> ' + input.name + ' <==\n')
+      io.stdout(withFrontmatter(frontmatter, content) + '\n')
+    }
+  }
+
+  return 0
+}
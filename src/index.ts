@@ -1,2 +1,25 @@
-export { wwwaxe } from './wwwaxe'
-export type { WwwaxeOptions } from './wwwaxe'
+export { wwwaxe, wwwaxeDetailed, wwwaxeStream, withFrontmatter, chunk, stitchPages, findPageLinks, resolveConfig, WwwaxeConfigError } from './wwwaxe'
+export type {
+  WwwaxeOptions,
+  WwwaxeResult,
+  WwwaxeStats,
+  WwwaxeConfig,
+  ListOverride,
+  OverlayRemoval,
+  ElementRef,
+  WwwaxePlugin,
+  WwwaxePluginContext,
+  WwwaxeElementAction,
+  PluginMatcher,
+  WwwaxeStream,
+  WwwaxeStreamInput,
+  Chunk,
+  ChunkOptions,
+  PageLinks,
+  FrontmatterData,
+  FrontmatterField,
+  FeedLink,
+  JsonLdData,
+  RemovalReason,
+  CoreStrategy,
+} from './wwwaxe'
@@ -1,7 +1,8 @@
-import { parseDocument } from 'htmlparser2'
-import { Element, Text, Comment, Node, Document, ChildNode, isTag, isText, hasChildren } from 'domhandler'
+import { parseDocument, Parser } from 'htmlparser2'
+import { DomHandler, Element, Text, Comment, Node, Document, ChildNode, ParentNode, isTag, isText, hasChildren } from 'domhandler'
 import render from 'dom-serializer'
-import { removeElement, textContent, getChildren } from 'domutils'
+import { selectAll } from 'css-select'
+import { removeElement, replaceElement, textContent, getChildren, append, appendChild, prepend, prependChild } from 'domutils'
 
 export interface WwwaxeOptions {
   /** Keep data-* attributes (default: false) */
@@ -14,8 +15,228 @@ export interface WwwaxeOptions {
   keepAriaHidden?: boolean
   /** Convert HTML tags to markdown syntax for token efficiency (default: true) */
   markdown?: boolean
+  /**
+   * Output format: 'markup' for markdown (or HTML with markdown: false), 'a11y' for an
+   * indented accessibility tree of roles and names, like `link "Docs" /docs`, or 'text' for
+   * plain text without markup (default: 'markup')
+   */
+  output?: 'markup' | 'a11y' | 'text'
   /** Strip chrome (header, nav, footer, aside, dialog) and isolate core content (default: false) */
   core?: boolean
+  /** In core mode, remove cookie banners, consent walls and newsletter modals (default: true) */
+  stripOverlays?: boolean
+  /**
+   * URL of the page, used to resolve relative href/src/srcset/poster/action values.
+   * Falls back to <base href>, then the canonical / og:url (default: undefined)
+   */
+  baseUrl?: string
+  /**
+   * Convert simple tables (header row, no colspan/rowspan, no nested or block content)
+   * to GFM pipe tables in markdown mode; other tables stay HTML (default: true)
+   */
+  markdownTables?: boolean
+  /** Convert dl/dt/dd to `**term**` / `: definition` lines in markdown mode (default: true) */
+  markdownDefinitionLists?: boolean
+  /** Convert details/summary to a bold summary followed by the body in markdown mode (default: true) */
+  markdownDetails?: boolean
+  /** Convert figure/figcaption to the figure content followed by an italic caption in markdown mode (default: true) */
+  markdownFigures?: boolean
+  /**
+   * How to render links in markdown mode: 'inline' `[text](url)`, 'reference' `[text][n]`
+   * with a deduplicated `[n]: url` table at the end, or 'none' for the text only (default: 'inline')
+   */
+  linkStyle?: 'inline' | 'reference' | 'none'
+  /** In markdown mode, render links whose text is their URL and fragment-only links (`#section`) as plain text (default: false) */
+  dropTrivialLinks?: boolean
+  /**
+   * How to render <form> elements: 'html' keeps them as cleaned HTML; 'summary' replaces
+   * each with its method/action and a list of fields (resolved label, type, name, required,
+   * value, select options) and submit buttons (default: 'html')
+   */
+  forms?: 'html' | 'summary'
+  /**
+   * How to handle images: 'keep' them, render 'alt-only' as `[image: alt]`, 'drop' them, or
+   * 'smart': drop tracking pixels, spacers and images without alt text, and use the largest
+   * srcset candidate for the rest (default: 'keep')
+   */
+  images?: 'keep' | 'alt-only' | 'drop' | 'smart'
+  /**
+   * Mark each kept link, button and form control with a `[#n]` reference and return
+   * a map from n to its selector/XPath in the original document (default: false)
+   */
+  elementRefs?: boolean
+  /** Maximum output size in tokens, as measured by `tokenEstimator` (default: unlimited) */
+  maxTokens?: number
+  /** Maximum output size in characters (default: unlimited) */
+  maxChars?: number
+  /** Estimate the token count of a string for `maxTokens` (default: ~4 characters per token) */
+  tokenEstimator?: (text: string) => number
+  /**
+   * Pull readable text out of SPA hydration payloads (__NEXT_DATA__, Next.js RSC flight
+   * chunks, __NUXT__, __APOLLO_STATE__) and append it when the rendered page has
+   * too little text (default: false)
+   */
+  hydration?: boolean
+  /**
+   * Site-specific cleanup rules, run at fixed pipeline stages. Plugins with a `match`
+   * only run when the page URL matches it: `baseUrl`, else the page's `<base href>`
+   * or canonical / og:url (default: none)
+   */
+  plugins?: WwwaxePlugin[]
+  /**
+   * CSS selectors of the regions to keep, matched on the raw document; the matches
+   * replace the page content. Ignored when nothing matches (default: none)
+   */
+  include?: string | string[]
+  /** CSS selectors of elements to remove, matched on the raw document (default: none) */
+  exclude?: string | string[]
+  /** Frontmatter fields to emit, in output order regardless of the order given (default: all) */
+  frontmatterFields?: FrontmatterField[]
+  /** Tags removed together with their children (default: script, style, noscript, svg, link, iframe, template) */
+  removeTags?: ListOverride
+  /** Presentational tags replaced by their children unless they carry content attributes (default: span, div, font, …) */
+  unwrapTags?: ListOverride
+  /** Structural tags that are always kept (default: html, body, main, p, h1–h6, ul, table, a, img, …) */
+  keepTags?: ListOverride
+  /** Attributes kept on elements; id, class and data-* have their own options (default: href, src, alt, role, …) */
+  contentAttributes?: ListOverride
+  /** Tags stripped as page chrome in core mode (default: nav, footer, aside, dialog) */
+  chromeTags?: ListOverride
+  /** `role` values stripped as page chrome in core mode (default: banner, navigation, complementary, contentinfo, search) */
+  chromeRoles?: ListOverride
+  /**
+   * Element ids tried in order as the content root in core mode; added ids are tried
+   * before the defaults (default: main-content, content, main, page-content, site-content)
+   */
+  contentIds?: ListOverride
+}
+
+/**
+ * Changes one of the built-in lists: an array adds entries, `{ add, remove }`
+ * edits the defaults and `{ replace }` swaps them out entirely
+ */
+export type ListOverride = string[] | { add?: string[], remove?: string[] } | { replace: string[] }
+
+/** The tag, attribute, role and id lists a call runs with, as returned by `resolveConfig()` */
+export interface WwwaxeConfig {
+  removeTags: string[]
+  /** In markdown mode, without the inline tags the markdown rewriter needs (strong, em, code, …) */
+  unwrapTags: string[]
+  keepTags: string[]
+  contentAttributes: string[]
+  chromeTags: string[]
+  chromeRoles: string[]
+  contentIds: string[]
+}
+
+/** Thrown for invalid list overrides in the options */
+export class WwwaxeConfigError extends Error {}
+
+/**
+ * Decides which pages a plugin applies to, tested against `baseUrl`:
+ * - `'example.com'`: that hostname; `'*.example.com'`: the domain and all its subdomains
+ * - `'github.com/org/'`: URLs whose host + path start with it (any string containing `/`)
+ * - a RegExp, tested against the full URL
+ * - a function of the parsed URL
+ */
+export type PluginMatcher = string | RegExp | ((url: URL) => boolean)
+
+export interface WwwaxePluginContext {
+  /** The page URL (`baseUrl`, else the page's `<base href>` or canonical / og:url), when known */
+  url?: URL
+  /** Options of the current call */
+  options: WwwaxeOptions
+}
+
+/**
+ * What an `element` hook does with an element: remove it (with its children),
+ * unwrap it (keep its children), or replace it with other nodes or an HTML string.
+ * Returning nothing leaves the element to the regular cleanup.
+ */
+export type WwwaxeElementAction = 'remove' | 'unwrap' | ChildNode | ChildNode[] | string
+
+/**
+ * Site-specific cleanup hooks. Each hook is optional; hooks of several plugins
+ * run in the order the plugins are given.
+ */
+export interface WwwaxePlugin {
+  name: string
+  /** Pages this plugin applies to (default: all pages) */
+  match?: PluginMatcher | PluginMatcher[]
+  /** Rewrite the raw HTML before it is parsed */
+  preParse?: (html: string, context: WwwaxePluginContext) => string | void
+  /** Edit the freshly parsed document, before frontmatter extraction and any cleanup */
+  postParse?: (doc: Document, context: WwwaxePluginContext) => void
+  /**
+   * Called for each element during cleanup, before its attributes are stripped.
+   * The first plugin returning an action decides; replacement nodes are cleaned up
+   * like the rest of the page, but are not passed to the element hooks again.
+   */
+  element?: (el: Element, context: WwwaxePluginContext) => WwwaxeElementAction | void
+  /** Edit the cleaned-up document before budget trimming and markdown conversion */
+  preMarkdown?: (doc: Document, context: WwwaxePluginContext) => void
+  /** Rewrite the serialized output (without frontmatter) */
+  postSerialize?: (output: string, context: WwwaxePluginContext) => string | void
+}
+
+/** Why an element was removed (or unwrapped) from the output */
+export type RemovalReason =
+  | 'comment' | 'tag' | 'hidden' | 'meta' | 'empty' | 'unwrapped' | 'chrome' | 'overlay' | 'budget' | 'plugin' | 'excluded' | 'image'
+
+/** How core mode picked the content root */
+export type CoreStrategy =
+  /** core mode is off */
+  | 'none'
+  /** <main> or role="main" with meaningful text */
+  | 'main'
+  | 'article'
+  | 'skip-link'
+  | 'well-known-id'
+  /** highest readability-style content score */
+  | 'score'
+  /** nothing matched — the whole body minus chrome */
+  | 'body'
+
+export interface WwwaxeStats {
+  /** Length of the input HTML */
+  inputLength: number
+  /** Length of the `wwwaxe()` output string, frontmatter included */
+  outputLength: number
+  /** Number of elements removed, by reason */
+  removed: Record<RemovalReason, number>
+  /** Which core-content strategy was picked */
+  coreStrategy: CoreStrategy
+  /** Content score of the picked element when coreStrategy is 'score' */
+  coreScore?: number
+  /** Overlays (cookie banners, consent walls, newsletter modals) removed in core mode */
+  overlays: OverlayRemoval[]
+}
+
+/** A removed overlay, for debugging false positives */
+export interface OverlayRemoval {
+  /** Short selector-like description of the element, e.g. `div#onetrust-banner-sdk.ot-banner` */
+  element: string
+  /** Which signal matched */
+  reason: string
+  /** Start of the element's text */
+  text: string
+}
+
+/** Where a referenced element lives in the original document */
+export interface ElementRef {
+  /** CSS selector, e.g. `#signup-email` or `html > body > main > p:nth-of-type(2) > a` */
+  selector: string
+  /** XPath, e.g. `//*[@id="signup-email"]` or `/html/body/main/p[2]/a` */
+  xpath: string
+}
+
+export interface WwwaxeResult {
+  frontmatter: FrontmatterData
+  /** Output without the frontmatter block */
+  content: string
+  stats: WwwaxeStats
+  /** With `elementRefs`, the element behind each `[#n]` marker in the output, keyed by n */
+  refs?: Record<number, ElementRef>
 }
 
 /** Tags to remove entirely (tag + all children) */
@@ -122,18 +343,128 @@ function isDataAttribute(name: string): boolean {
   return name.startsWith('data-')
 }
 
+// ─── Configurable lists ─────────────────────────────────────────────────────
+
+/** The lists in effect for a call, as sets for lookup */
+interface ResolvedConfig {
+  removeTags: Set<string>
+  unwrapTags: Set<string>
+  keepTags: Set<string>
+  contentAttributes: Set<string>
+  chromeTags: Set<string>
+  chromeRoles: Set<string>
+  contentIds: string[]
+}
+
+const TAG_NAME_PATTERN = /^[a-z][a-z0-9-]*$/
+const ATTRIBUTE_NAME_PATTERN = /^[^\s"'>/=]+$/
+const ROLE_PATTERN = /^[a-z][a-z-]*$/
+const ID_PATTERN = /^\S+$/
+
+/**
+ * Merge a list override with the defaults. Tag, attribute and role names are
+ * lowercased; ids are case-sensitive. Added entries go first so ordered lists
+ * (contentIds) try them before the defaults.
+ */
+function mergeList(
+  name: string,
+  defaults: Iterable<string>,
+  override: ListOverride | undefined,
+  pattern: RegExp,
+  caseSensitive = false,
+): string[] {
+  const base = [...defaults]
+  if (override === undefined) return base
+
+  const normalize = (field: string, values: unknown): string[] => {
+    if (!Array.isArray(values)) throw new WwwaxeConfigError(name + field + ' must be an array of strings')
+    return values.map(value => {
+      if (typeof value !== 'string') throw new WwwaxeConfigError(name + field + ' must be an array of strings')
+      const entry = caseSensitive ? value.trim() : value.trim().toLowerCase()
+      if (!pattern.test(entry)) throw new WwwaxeConfigError('Invalid entry in ' + name + ': ' + JSON.stringify(value))
+      return entry
+    })
+  }
+
+  if (Array.isArray(override)) return [...new Set([...normalize('', override), ...base])]
+  if (typeof override !== 'object' || override === null) {
+    throw new WwwaxeConfigError(name + ' must be an array or an object with add / remove or replace')
+  }
+  if ('replace' in override) {
+    if ('add' in override || 'remove' in override) {
+      throw new WwwaxeConfigError(name + ': replace cannot be combined with add / remove')
+    }
+    return [...new Set(normalize('.replace', override.replace))]
+  }
+
+  const remove = normalize('.remove', override.remove ?? [])
+  for (const entry of remove) {
+    if (!base.includes(entry)) throw new WwwaxeConfigError('Cannot remove ' + JSON.stringify(entry) + ' from ' + name + ': not in the list')
+  }
+  const add = normalize('.add', override.add ?? [])
+  return [...new Set([...add, ...base.filter(entry => !remove.includes(entry))])]
+}
+
 /**
- * Get the effective UNWRAP_TAGS set based on markdown option
+ * Resolve the list overrides in the options against the built-in lists and validate them
  */
-function getUnwrapTags(options: WwwaxeOptions): Set<string> {
-  const markdown = options.markdown !== false
-  if (!markdown) return UNWRAP_TAGS
+function buildConfig(options: WwwaxeOptions): ResolvedConfig {
+  const removeTags = new Set(mergeList('removeTags', REMOVE_TAGS, options.removeTags, TAG_NAME_PATTERN))
+  const unwrapTags = new Set(mergeList('unwrapTags', UNWRAP_TAGS, options.unwrapTags, TAG_NAME_PATTERN))
+  const keepTags = new Set(mergeList('keepTags', KEEP_TAGS, options.keepTags, TAG_NAME_PATTERN))
+  const contentAttributes = new Set(mergeList('contentAttributes', CONTENT_ATTRIBUTES, options.contentAttributes, ATTRIBUTE_NAME_PATTERN))
+
+  // A tag can only be handled one way
+  const tagLists: [string, Set<string>][] = [['removeTags', removeTags], ['unwrapTags', unwrapTags], ['keepTags', keepTags]]
+  for (const [i, [name, tags]] of tagLists.entries()) {
+    for (const [otherName, otherTags] of tagLists.slice(i + 1)) {
+      const shared = [...tags].filter(tag => otherTags.has(tag))
+      if (shared.length > 0) {
+        throw new WwwaxeConfigError(shared.map(tag => JSON.stringify(tag)).join(', ') + ' cannot be in both ' + name + ' and ' + otherName)
+      }
+    }
+  }
+
+  // These attributes have their own options, or are always stripped
+  for (const attribute of contentAttributes) {
+    if (attribute === 'id' || attribute === 'class' || attribute === 'style' || isEventAttribute(attribute) || isDataAttribute(attribute)) {
+      throw new WwwaxeConfigError(JSON.stringify(attribute) + ' cannot be in contentAttributes; use keepIds, keepClasses or keepDataAttributes')
+    }
+  }
+
   // When markdown is enabled, don't unwrap tags that the markdown rewriter needs
-  const tags = new Set(UNWRAP_TAGS)
-  for (const tag of MARKDOWN_PRESERVE_TAGS) {
-    tags.delete(tag)
+  if (options.markdown !== false) {
+    for (const tag of MARKDOWN_PRESERVE_TAGS) unwrapTags.delete(tag)
+  }
+
+  return {
+    removeTags,
+    unwrapTags,
+    keepTags,
+    contentAttributes,
+    chromeTags: new Set(mergeList('chromeTags', CHROME_TAGS, options.chromeTags, TAG_NAME_PATTERN)),
+    chromeRoles: new Set(mergeList('chromeRoles', CHROME_ROLES, options.chromeRoles, ROLE_PATTERN)),
+    contentIds: mergeList('contentIds', WELL_KNOWN_CONTENT_IDS, options.contentIds, ID_PATTERN, true),
+  }
+}
+
+/**
+ * resolveConfig - The tag, attribute, role and id lists wwwaxe would run with
+ *
+ * Merges the list overrides in the options with the built-in defaults, for
+ * debugging. Throws WwwaxeConfigError for invalid overrides, as wwwaxe() would.
+ */
+export function resolveConfig(options: WwwaxeOptions = {}): WwwaxeConfig {
+  const config = buildConfig(options)
+  return {
+    removeTags: [...config.removeTags],
+    unwrapTags: [...config.unwrapTags],
+    keepTags: [...config.keepTags],
+    contentAttributes: [...config.contentAttributes],
+    chromeTags: [...config.chromeTags],
+    chromeRoles: [...config.chromeRoles],
+    contentIds: config.contentIds,
   }
-  return tags
 }
 
 // ─── Tree helpers ───────────────────────────────────────────────────────────
@@ -170,6 +501,19 @@ function findElements(node: Node, predicate: (el: Element) => boolean): Element[
   return results
 }
 
+/**
+ * Create an element, linking its children's parent and sibling pointers
+ */
+function createElement(tagName: string, children: ChildNode[] = [], attribs: Record<string, string> = {}): Element {
+  const el = new Element(tagName, attribs, children)
+  children.forEach((child, i) => {
+    child.parent = el
+    child.prev = children[i - 1] || null
+    child.next = children[i + 1] || null
+  })
+  return el
+}
+
 /**
  * Find an element by id (depth-first)
  */
@@ -188,33 +532,134 @@ function findById(node: Node, id: string): Element | null {
 
 // ─── Frontmatter ────────────────────────────────────────────────────────────
 
-interface FrontmatterData {
+export interface FrontmatterData {
   title?: string
   description?: string
   url?: string
   image?: string
+  /** <meta name="author"> */
+  author?: string
+  /** article:published_time, else a <time> marked as the publication date, else the first <time> */
+  published?: string
+  /** article:modified_time / og:updated_time, else <time itemprop="dateModified"> */
+  modified?: string
+  /** <html lang> */
+  lang?: string
+  /** og:site_name, else application-name */
+  siteName?: string
+  /** og:type */
+  type?: string
+  /** <meta name="keywords"> and article:tag */
+  keywords?: string[]
+  /** RSS / Atom / JSON Feed alternates */
+  feeds?: FeedLink[]
+  /** hreflang alternates: language → URL */
+  translations?: Record<string, string>
+  jsonld?: JsonLdData
+}
+
+/** A feed linked with <link rel="alternate"> */
+export interface FeedLink {
+  url: string
+  type: 'rss' | 'atom' | 'json'
+  title?: string
+}
+
+/** Frontmatter fields, in output order */
+const FRONTMATTER_FIELDS = [
+  'title', 'description', 'url', 'image', 'author', 'published', 'modified', 'lang',
+  'siteName', 'type', 'keywords', 'feeds', 'translations', 'jsonld',
+] as const
+
+export type FrontmatterField = typeof FRONTMATTER_FIELDS[number]
+
+/** Feed MIME types of <link rel="alternate"> */
+const FEED_TYPES: Record<string, FeedLink['type']> = {
+  'application/rss+xml': 'rss',
+  'application/atom+xml': 'atom',
+  'application/feed+json': 'json',
+}
+
+/** Selected, flattened fields from the page's JSON-LD structured data */
+export interface JsonLdData {
+  type?: string
+  headline?: string
+  author?: string
+  datePublished?: string
+  dateModified?: string
+  price?: string
+  priceCurrency?: string
+  availability?: string
+  rating?: string
+  reviewCount?: string
+  breadcrumb?: string[]
+}
+
+/** Scalar JsonLdData fields, in frontmatter output order */
+const JSONLD_SCALAR_FIELDS = [
+  'type', 'headline', 'author', 'datePublished', 'dateModified',
+  'price', 'priceCurrency', 'availability', 'rating', 'reviewCount',
+] as const
+
+/** Schema.org types describing the site or page shell rather than the content itself */
+const JSONLD_ANCILLARY_TYPES = new Set([
+  'breadcrumblist', 'website', 'organization', 'webpage', 'searchaction', 'imageobject',
+])
+
+/**
+ * Content of the first <meta> whose name (or property) is one of the keys, in key order
+ */
+function metaContent(metas: Element[], ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    for (const meta of metas) {
+      const name = (meta.attribs.name || meta.attribs.property || '').toLowerCase()
+      const content = meta.attribs.content?.trim()
+      if (name === key && content) return content
+    }
+  }
+  return undefined
+}
+
+/**
+ * Datetime of the <time> element marking the publication date (pubdate or
+ * itemprop="datePublished"), else of the first <time datetime>
+ */
+function findPublishedTime(doc: Document): string | undefined {
+  const times = findElements(doc, (el) => el.tagName.toLowerCase() === 'time' && !!el.attribs.datetime?.trim())
+  const marked = times.find(el => el.attribs.pubdate !== undefined || (el.attribs.itemprop || '').toLowerCase() === 'datepublished')
+  return (marked ?? times[0])?.attribs.datetime.trim()
+}
+
+function findModifiedTime(doc: Document): string | undefined {
+  const time = findElements(doc, (el) =>
+    el.tagName.toLowerCase() === 'time' && !!el.attribs.datetime?.trim() &&
+    (el.attribs.itemprop || '').toLowerCase() === 'datemodified')[0]
+  return time?.attribs.datetime.trim()
 }
 
 /**
- * Extract frontmatter metadata from <head>.
+ * Extract frontmatter metadata from <head> (plus <html lang> and <time> elements).
  * Must be called BEFORE processNode since processNode strips attributes like rel.
  */
 function extractFrontmatter(doc: Document): FrontmatterData {
   const data: FrontmatterData = {}
 
+  // JSON-LD can live anywhere in the document, not just <head>
+  const jsonld = extractJsonLd(doc)
+
+  const lang = findElement(doc, 'html')?.attribs.lang?.trim()
   const head = findElement(doc, 'head')
-  if (!head) return data
 
   // Title from <title> tag
-  const titleEl = findElement(head, 'title')
+  const titleEl = head && findElement(head, 'title')
   if (titleEl) {
     const text = textContent(titleEl).trim()
     if (text) data.title = text
   }
 
   // Walk head children for meta and link tags
-  const metas = findElements(head, (el) => el.tagName.toLowerCase() === 'meta')
-  const links = findElements(head, (el) => el.tagName.toLowerCase() === 'link')
+  const metas = head ? findElements(head, (el) => el.tagName.toLowerCase() === 'meta') : []
+  const links = head ? findElements(head, (el) => el.tagName.toLowerCase() === 'link') : []
 
   // Description from <meta name="description">
   for (const meta of metas) {
@@ -256,9 +701,262 @@ function extractFrontmatter(doc: Document): FrontmatterData {
     }
   }
 
+  const author = metaContent(metas, 'author')
+  if (author) data.author = author
+
+  const published = metaContent(metas, 'article:published_time') ?? findPublishedTime(doc)
+  if (published) data.published = published
+
+  const modified = metaContent(metas, 'article:modified_time', 'og:updated_time') ?? findModifiedTime(doc)
+  if (modified) data.modified = modified
+
+  if (lang) data.lang = lang
+
+  const siteName = metaContent(metas, 'og:site_name', 'application-name')
+  if (siteName) data.siteName = siteName
+
+  const type = metaContent(metas, 'og:type')
+  if (type) data.type = type
+
+  // Keywords from <meta name="keywords"> and article:tag, deduplicated
+  const keywords = new Set<string>()
+  for (const meta of metas) {
+    const name = (meta.attribs.name || meta.attribs.property || '').toLowerCase()
+    const content = meta.attribs.content || ''
+    if (name === 'keywords') content.split(',').forEach(keyword => keywords.add(keyword.trim()))
+    if (name === 'article:tag') keywords.add(content.trim())
+  }
+  keywords.delete('')
+  if (keywords.size > 0) data.keywords = [...keywords]
+
+  // Feeds and translations from <link rel="alternate">
+  const feeds: FeedLink[] = []
+  const translations: Record<string, string> = {}
+  for (const link of links) {
+    const href = link.attribs.href?.trim()
+    if (!href || !relTokens(link).includes('alternate')) continue
+    const feedType = FEED_TYPES[(link.attribs.type || '').toLowerCase().trim()]
+    const hreflang = link.attribs.hreflang?.trim()
+    if (feedType) {
+      const title = link.attribs.title?.trim()
+      feeds.push({ url: href, type: feedType, ...(title ? { title } : {}) })
+    } else if (hreflang) {
+      translations[hreflang] = href
+    }
+  }
+  if (feeds.length > 0) data.feeds = feeds
+  if (Object.keys(translations).length > 0) data.translations = translations
+
+  if (jsonld) data.jsonld = jsonld
+
   return data
 }
 
+/**
+ * Keep only the frontmatter fields the caller asked for
+ */
+function selectFrontmatterFields(data: FrontmatterData, options: WwwaxeOptions): void {
+  const fields = options.frontmatterFields
+  if (!fields) return
+  for (const field of fields) {
+    if (!(FRONTMATTER_FIELDS as readonly string[]).includes(field)) {
+      throw new WwwaxeConfigError('Unknown frontmatter field: ' + JSON.stringify(field))
+    }
+  }
+  for (const field of FRONTMATTER_FIELDS) {
+    if (!fields.includes(field)) delete data[field]
+  }
+}
+
+// ─── JSON-LD ────────────────────────────────────────────────────────────────
+
+/** A parsed JSON-LD object */
+type JsonLdObject = Record<string, unknown>
+
+function isJsonLdObject(value: unknown): value is JsonLdObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Flatten parsed JSON-LD into a list of entities, expanding arrays and @graph
+ */
+function collectJsonLdEntities(value: unknown, entities: JsonLdObject[]): void {
+  if (Array.isArray(value)) {
+    for (const item of value) collectJsonLdEntities(item, entities)
+    return
+  }
+  if (!isJsonLdObject(value)) return
+  if (value['@graph']) collectJsonLdEntities(value['@graph'], entities)
+  if (value['@type']) entities.push(value)
+}
+
+/**
+ * Get a JSON-LD value as a plain string (`name` of objects; array entries joined with `, `)
+ */
+function jsonLdText(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    const parts = value.map(jsonLdText).filter((v): v is string => !!v)
+    return parts.length > 0 ? parts.join(', ') : undefined
+  }
+  if (typeof value === 'string') return value.trim() || undefined
+  if (typeof value === 'number') return String(value)
+  if (isJsonLdObject(value)) return jsonLdText(value.name)
+  return undefined
+}
+
+function jsonLdTypes(entity: JsonLdObject): string[] {
+  const type = entity['@type']
+  return (Array.isArray(type) ? type : [type]).filter((t): t is string => typeof t === 'string')
+}
+
+/**
+ * Get the first object of a JSON-LD value that may be an object or an array of objects
+ */
+function firstJsonLdObject(value: unknown): JsonLdObject | undefined {
+  const first: unknown = Array.isArray(value) ? value[0] : value
+  return isJsonLdObject(first) ? first : undefined
+}
+
+function isJsonLdScript(el: Element): boolean {
+  return el.tagName.toLowerCase() === 'script' &&
+    (el.attribs.type || '').trim().toLowerCase() === 'application/ld+json'
+}
+
+/**
+ * Extract selected fields from <script type="application/ld+json"> blocks.
+ * Must be called BEFORE processNode since processNode removes all scripts.
+ * Malformed blocks are skipped. Returns null when nothing useful was found.
+ */
+function extractJsonLd(doc: Document): JsonLdData | null {
+  const scripts = findElements(doc, isJsonLdScript)
+
+  const entities: JsonLdObject[] = []
+  for (const script of scripts) {
+    try {
+      collectJsonLdEntities(JSON.parse(textContent(script)), entities)
+    } catch {
+      // Malformed JSON-LD — skip this block
+    }
+  }
+  if (entities.length === 0) return null
+
+  const data: JsonLdData = {}
+  const setOnce = (key: Exclude<keyof JsonLdData, 'breadcrumb'>, value: unknown) => {
+    if (data[key]) return
+    const text = jsonLdText(value)
+    if (text) data[key] = text
+  }
+
+  for (const entity of entities) {
+    const types = jsonLdTypes(entity)
+
+    if (types.some(t => t.toLowerCase() === 'breadcrumblist')) {
+      if (!data.breadcrumb) {
+        const items = Array.isArray(entity.itemListElement) ? entity.itemListElement.filter(isJsonLdObject) : []
+        items.sort((a, b) => (Number(a.position) || 0) - (Number(b.position) || 0))
+        const names = items
+          .map(item => jsonLdText(item.name) || jsonLdText(item.item))
+          .filter((name): name is string => !!name)
+        if (names.length > 0) data.breadcrumb = names
+      }
+      continue
+    }
+
+    if (!types.some(t => JSONLD_ANCILLARY_TYPES.has(t.toLowerCase()))) {
+      setOnce('type', types[0])
+    }
+    setOnce('headline', entity.headline)
+    setOnce('author', entity.author)
+    setOnce('datePublished', entity.datePublished)
+    setOnce('dateModified', entity.dateModified)
+
+    const offer = firstJsonLdObject(entity.offers)
+    if (offer) {
+      setOnce('price', offer.price ?? offer.lowPrice)
+      setOnce('priceCurrency', offer.priceCurrency)
+      setOnce('availability', typeof offer.availability === 'string'
+        ? offer.availability.replace(/^https?:\/\/schema\.org\//, '')
+        : undefined)
+    }
+
+    const rating = firstJsonLdObject(entity.aggregateRating)
+    if (rating) {
+      setOnce('rating', rating.ratingValue)
+      setOnce('reviewCount', rating.reviewCount ?? rating.ratingCount)
+    }
+  }
+
+  return Object.keys(data).length > 0 ? data : null
+}
+
+// ─── URL resolution ─────────────────────────────────────────────────────────
+
+/** Attributes holding a single URL that get resolved against the base URL */
+const URL_ATTRIBUTES = new Set(['href', 'src', 'poster', 'action'])
+
+/**
+ * Resolve a (possibly relative) URL against a base URL.
+ * Returns the value unchanged when there is no base, the value is a pure
+ * fragment (in-page anchors stay relative, their target ids are kept), or
+ * the URL cannot be parsed.
+ */
+function resolveUrl(value: string, baseUrl: string | undefined): string {
+  const trimmed = value.trim()
+  if (!baseUrl || !trimmed || trimmed.startsWith('#') || trimmed.startsWith('data:')) return value
+  try {
+    return new URL(trimmed, baseUrl).href
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Resolve every candidate URL in a srcset value, keeping width/density descriptors
+ */
+function resolveSrcset(value: string, baseUrl: string | undefined): string {
+  if (!baseUrl) return value
+  return value.split(',')
+    .map(s => s.trim())
+    .filter(s => s.length > 0)
+    .map(candidate => {
+      const [url, ...descriptors] = candidate.split(/\s+/)
+      return [resolveUrl(url, baseUrl), ...descriptors].join(' ')
+    })
+    .join(', ')
+}
+
+/**
+ * Determine the base URL for resolving relative links.
+ * Priority: options.baseUrl, then <base href> (itself resolved against the
+ * page URL when relative), then the canonical / og:url from the frontmatter.
+ */
+function findBaseUrl(doc: Document, options: WwwaxeOptions, frontmatter: FrontmatterData): string | undefined {
+  const pageUrl = options.baseUrl || frontmatter.url
+  const baseEl = findElement(doc, 'base')
+  const baseHref = baseEl?.attribs.href?.trim()
+
+  const candidates = baseHref ? [resolveUrl(baseHref, pageUrl), pageUrl] : [pageUrl]
+  for (const candidate of candidates) {
+    if (!candidate) continue
+    try {
+      return new URL(candidate).href
+    } catch {
+      // Not absolute — try the next candidate
+    }
+  }
+  return undefined
+}
+
+/**
+ * Resolve the url and image frontmatter fields against the base URL
+ */
+function resolveFrontmatterUrls(data: FrontmatterData, baseUrl: string | undefined): void {
+  if (data.url) data.url = resolveUrl(data.url, baseUrl)
+  if (data.image) data.image = resolveUrl(data.image, baseUrl)
+  for (const feed of data.feeds ?? []) feed.url = resolveUrl(feed.url, baseUrl)
+  for (const [lang, url] of Object.entries(data.translations ?? {})) data.translations![lang] = resolveUrl(url, baseUrl)
+}
+
 /**
  * Escape a YAML value if it contains special characters
  */
@@ -300,6 +998,41 @@ function buildFrontmatter(data: FrontmatterData): string {
   if (data.description) lines.push('description: ' + yamlEscape(data.description))
   if (data.url) lines.push('url: ' + yamlEscape(data.url))
   if (data.image) lines.push('image: ' + yamlEscape(data.image))
+  if (data.author) lines.push('author: ' + yamlEscape(data.author))
+  if (data.published) lines.push('published: ' + yamlEscape(data.published))
+  if (data.modified) lines.push('modified: ' + yamlEscape(data.modified))
+  if (data.lang) lines.push('lang: ' + yamlEscape(data.lang))
+  if (data.siteName) lines.push('siteName: ' + yamlEscape(data.siteName))
+  if (data.type) lines.push('type: ' + yamlEscape(data.type))
+
+  if (data.keywords) {
+    lines.push('keywords:')
+    for (const keyword of data.keywords) lines.push('  - ' + yamlEscape(keyword))
+  }
+  if (data.feeds) {
+    lines.push('feeds:')
+    for (const feed of data.feeds) {
+      lines.push('  - url: ' + yamlEscape(feed.url))
+      lines.push('    type: ' + feed.type)
+      if (feed.title) lines.push('    title: ' + yamlEscape(feed.title))
+    }
+  }
+  if (data.translations) {
+    lines.push('translations:')
+    for (const [lang, url] of Object.entries(data.translations)) lines.push('  ' + yamlEscape(lang) + ': ' + yamlEscape(url))
+  }
+
+  if (data.jsonld) {
+    lines.push('jsonld:')
+    for (const key of JSONLD_SCALAR_FIELDS) {
+      const value = data.jsonld[key]
+      if (value) lines.push('  ' + key + ': ' + yamlEscape(value))
+    }
+    if (data.jsonld.breadcrumb) {
+      lines.push('  breadcrumb:')
+      for (const name of data.jsonld.breadcrumb) lines.push('    - ' + yamlEscape(name))
+    }
+  }
 
   if (lines.length === 0) return ''
 
@@ -427,12 +1160,217 @@ function reassembleRSCPayloads(doc: Document): void {
   }
 }
 
+// ─── Hydration data extraction ──────────────────────────────────────────────
+
+/** Below this much rendered text (chars), hydration content is appended as a fallback */
+const HYDRATION_MIN_DOM_TEXT = 200
+
+/** Hydration strings shorter than this (text chars) are ignored */
+const HYDRATION_MIN_STRING_LENGTH = 40
+
+/** Object keys whose string values are never content */
+const HYDRATION_SKIP_KEYS = new Set([
+  'classname', 'class', 'style', 'href', 'src', 'srcset', 'url', 'id', '__typename', 'buildid', 'assetprefix',
+])
+
+/** Rich-text values: strings containing block-level markup */
+const RICH_TEXT_PATTERN = /<(?:p|h[1-6]|ul|ol|li|blockquote|pre|table|br)\b[^>]*>/i
+
+/**
+ * Whether a hydration string reads like human-written content rather than an
+ * identifier, URL, class list or code
+ */
+function isReadableString(value: string): boolean {
+  const text = value.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim()
+  if (text.length < HYDRATION_MIN_STRING_LENGTH) return false
+  if (/^(?:https?:|\/|\$|\{|\[|data:)/.test(text)) return false
+  const words = text.split(' ')
+  if (words.length < 5) return false
+  // Class lists and code are mostly dashed / colon / bracketed tokens
+  const tokenish = words.filter(w => /[-_:[\]{}=();/\\]/.test(w.replace(/[.,!?;:]$/, ''))).length
+  if (tokenish / words.length > 0.3) return false
+  const letters = (text.match(/[\p{L}\s]/gu) || []).length
+  return letters / text.length >= 0.7
+}
+
+/**
+ * Collect readable strings from a parsed JSON value, depth-first in key order
+ */
+function collectHydrationStrings(value: unknown, out: string[], key = ''): void {
+  if (typeof value === 'string') {
+    if (!HYDRATION_SKIP_KEYS.has(key.toLowerCase()) && isReadableString(value)) out.push(value)
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectHydrationStrings(item, out, key)
+  } else if (value && typeof value === 'object') {
+    for (const [k, v] of Object.entries(value)) collectHydrationStrings(v, out, k)
+  }
+}
+
+/**
+ * Fallback for non-JSON payloads (e.g. Nuxt's `(function(a,b){…})(…)`): every
+ * double-quoted string literal in the script
+ */
+function collectStringLiterals(source: string, out: string[]): void {
+  for (const match of source.matchAll(/"((?:[^"\\\n]|\\.)*)"/g)) {
+    try {
+      const value = JSON.parse(match[0]) as string
+      if (isReadableString(value)) out.push(value)
+    } catch {
+      // not a valid JSON string literal
+    }
+  }
+}
+
+/**
+ * Parse the object assigned in `window.__X__ = {…}`, falling back to string literals
+ */
+function collectAssignedPayload(source: string, out: string[]): void {
+  const start = source.indexOf('{')
+  const end = source.lastIndexOf('}')
+  if (start !== -1 && end > start) {
+    try {
+      collectHydrationStrings(JSON.parse(source.slice(start, end + 1)), out)
+      return
+    } catch {
+      // not plain JSON — fall through
+    }
+  }
+  collectStringLiterals(source, out)
+}
+
+/**
+ * Index after `byteLength` UTF-8 bytes of text, starting at `start`
+ */
+function utf8Offset(text: string, start: number, byteLength: number): number {
+  let index = start
+  let bytes = byteLength
+  while (bytes > 0 && index < text.length) {
+    const code = text.codePointAt(index)!
+    bytes -= code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4
+    index += code >= 0x10000 ? 2 : 1
+  }
+  return index
+}
+
+/**
+ * Collect strings from concatenated RSC flight data (`self.__next_f.push([1,"…"])`).
+ * Rows are `id:JSON\n`, or `id:T<hex length>,<raw text>` where the text runs for
+ * exactly that many UTF-8 bytes (it may span lines and has no trailing newline).
+ */
+function collectFlightStrings(flight: string, out: string[]): void {
+  const rowHeader = /([0-9a-f]+):(?:T([0-9a-f]+),)?/iy
+  let index = 0
+  while (index < flight.length) {
+    rowHeader.lastIndex = index
+    const header = rowHeader.exec(flight)
+    if (header && header[2] !== undefined) {
+      const start = index + header[0].length
+      const end = utf8Offset(flight, start, parseInt(header[2], 16))
+      const text = flight.slice(start, end)
+      if (isReadableString(text)) out.push(text)
+      index = end
+      continue
+    }
+
+    const lineEnd = flight.indexOf('\n', index)
+    const end = lineEnd === -1 ? flight.length : lineEnd
+    if (header) {
+      const payload = flight.slice(index + header[0].length, end)
+      try {
+        collectHydrationStrings(JSON.parse(payload), out)
+      } catch {
+        collectStringLiterals(payload, out)
+      }
+    }
+    index = end + 1
+  }
+}
+
+/**
+ * Find the array arguments of `self.__next_f.push([…])` calls. String literals
+ * are skipped while matching brackets, so a `])` inside one doesn't end the array.
+ */
+function findFlightPushArguments(source: string): string[] {
+  const call = 'self.__next_f.push('
+  const found: string[] = []
+  for (let index = source.indexOf(call); index !== -1; index = source.indexOf(call, index + 1)) {
+    const start = index + call.length
+    if (source[start] !== '[') continue
+
+    let depth = 0
+    let quote = ''
+    for (let i = start; i < source.length; i++) {
+      const c = source[i]
+      if (quote) {
+        if (c === '\\') i++
+        else if (c === quote) quote = ''
+      } else if (c === '"' || c === "'" || c === '`') {
+        quote = c
+      } else if (c === '[') {
+        depth++
+      } else if (c === ']' && --depth === 0) {
+        found.push(source.slice(start, i + 1))
+        index = i
+        break
+      }
+    }
+  }
+  return found
+}
+
+/**
+ * Extract content from SPA hydration payloads: `__NEXT_DATA__`,
+ * `self.__next_f.push(...)` RSC flight chunks, `window.__NUXT__` / `__NUXT_DATA__`
+ * and `__APOLLO_STATE__`. Must run before processNode removes the scripts.
+ *
+ * Returns a <section> holding one paragraph per readable string (rich-text
+ * HTML values are parsed and kept as markup), or null when nothing was found.
+ */
+function extractHydrationContent(doc: Document): Element | null {
+  const strings: string[] = []
+  let flight = ''
+
+  for (const script of findElements(doc, (el) => el.tagName.toLowerCase() === 'script')) {
+    const source = textContent(script)
+    const id = script.attribs.id || ''
+
+    if (id === '__NEXT_DATA__' || id === '__NUXT_DATA__') {
+      try {
+        collectHydrationStrings(JSON.parse(source), strings)
+      } catch {
+        collectStringLiterals(source, strings)
+      }
+    } else if (source.includes('self.__next_f')) {
+      for (const args of findFlightPushArguments(source)) {
+        try {
+          const [, chunk] = JSON.parse(args) as [number, string?]
+          if (typeof chunk === 'string') flight += chunk
+        } catch {
+          // malformed chunk
+        }
+      }
+    } else if (/__NUXT__\s*=|__APOLLO_STATE__\s*=/.test(source)) {
+      collectAssignedPayload(source, strings)
+    }
+  }
+  if (flight) collectFlightStrings(flight, strings)
+
+  const unique = [...new Set(strings.map(s => s.trim()))]
+  if (unique.length === 0) return null
+
+  const paragraphs = unique.map(value => {
+    if (RICH_TEXT_PATTERN.test(value)) return parseDocument(value, { decodeEntities: true }).children
+    return [createElement('p', [new Text(value)])]
+  })
+  return createElement('section', paragraphs.flat())
+}
+
 // ─── Core content / chrome stripping ────────────────────────────────────────
 
 /**
  * Recursively remove chrome elements from a node
  */
-function removeChromeElements(node: Node): void {
+function removeChromeElements(node: Node, removed: Record<RemovalReason, number>, config: ResolvedConfig): void {
   if (!hasChildren(node)) return
 
   // Copy children since we modify during iteration
@@ -442,8 +1380,9 @@ function removeChromeElements(node: Node): void {
       const tag = child.tagName.toLowerCase()
       const role = (child.attribs.role || '').toLowerCase()
 
-      if (CHROME_TAGS.has(tag) || CHROME_ROLES.has(role)) {
+      if (config.chromeTags.has(tag) || config.chromeRoles.has(role)) {
         removeElement(child)
+        removed.chrome++
         continue
       }
 
@@ -454,23 +1393,98 @@ function removeChromeElements(node: Node): void {
           SECTIONING_TAGS.has((node as Element).tagName.toLowerCase())
         if (!isInsideSectioning) {
           removeElement(child)
+          removed.chrome++
           continue
         }
       }
     }
     // Recurse into remaining children
-    removeChromeElements(child)
+    removeChromeElements(child, removed, config)
   }
 }
 
+interface CoreContentMatch {
+  element: Element
+  strategy: CoreStrategy
+  score?: number
+}
+
+/** Paragraph-like elements whose text feeds the content score of their ancestors */
+const SCORED_PARAGRAPH_TAGS = new Set(['p', 'pre', 'blockquote', 'td', 'dd', 'li'])
+
+/** Paragraphs shorter than this (text chars) don't count */
+const MIN_SCORED_PARAGRAPH_LENGTH = 25
+
+/** A best candidate scoring below this is not trusted as the content root */
+const MIN_CONTENT_SCORE = 20
+
+/** Elements whose text is code, not content; scoring runs before processNode removes them */
+const UNSCORED_TEXT_TAGS = new Set(['script', 'style', 'noscript'])
+
+/**
+ * Text of a node without the text of inline scripts and styles
+ */
+function scoredText(node: Node): string {
+  if (isText(node)) return node.data
+  if (isTag(node) && UNSCORED_TEXT_TAGS.has(node.tagName.toLowerCase())) return ''
+  return hasChildren(node) ? getChildren(node).map(scoredText).join('') : ''
+}
+
+/**
+ * Share of an element's text that sits inside links (0–1)
+ */
+function linkDensity(el: Element): number {
+  const textLength = scoredText(el).trim().length
+  if (textLength === 0) return 0
+  const linkLength = findElements(el, (child) => child.tagName.toLowerCase() === 'a')
+    .reduce((sum, link) => sum + scoredText(link).trim().length, 0)
+  return Math.min(1, linkLength / textLength)
+}
+
+/**
+ * Readability-style content scoring.
+ *
+ * Each paragraph-like element with enough text scores 1 point, plus 1 per
+ * comma and 1 per 100 characters (max 3). The score goes to its parent in
+ * full and its grandparent by half. Each candidate's total is then scaled by
+ * (1 - link density), so link-heavy navigation blocks lose out.
+ * Returns the best candidate, or null when nothing scores high enough.
+ */
+function findContentByScore(doc: Document): CoreContentMatch | null {
+  const scores = new Map<Element, number>()
+
+  const paragraphs = findElements(doc, (el) => SCORED_PARAGRAPH_TAGS.has(el.tagName.toLowerCase()))
+  for (const paragraph of paragraphs) {
+    const text = scoredText(paragraph).replace(/\s+/g, ' ').trim()
+    if (text.length < MIN_SCORED_PARAGRAPH_LENGTH) continue
+
+    const score = 1 + (text.match(/,/g) || []).length + Math.min(Math.floor(text.length / 100), 3)
+    const parent = paragraph.parentNode
+    if (parent && isTag(parent)) {
+      scores.set(parent, (scores.get(parent) || 0) + score)
+      const grandparent = parent.parentNode
+      if (grandparent && isTag(grandparent)) {
+        scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2)
+      }
+    }
+  }
+
+  let best: CoreContentMatch | null = null
+  for (const [element, raw] of scores) {
+    const score = Math.round(raw * (1 - linkDensity(element)) * 100) / 100
+    if (!best || score > best.score!) best = { element, strategy: 'score', score }
+  }
+  return best && best.score! >= MIN_CONTENT_SCORE ? best : null
+}
+
 /**
  * Find core content when no <main> or role="main" exists.
- * Returns the element to use as the content root, or null.
+ * Returns the element to use as the content root and how it was found, or null.
  */
-function findCoreContent(doc: Document): Element | null {
+function findCoreContent(doc: Document, config: ResolvedConfig): CoreContentMatch | null {
   // 1. Try <article>
   const article = findElement(doc, 'article')
-  if (article) return article
+  if (article) return { element: article, strategy: 'article' }
 
   // 2. Try skip-to-content link target
   const skipLinks = findElements(doc, (el) => {
@@ -484,14 +1498,14 @@ function findCoreContent(doc: Document): Element | null {
     const targetId = (link.attribs.href || '').slice(1)
     if (targetId) {
       const target = findById(doc, targetId)
-      if (target) return target
+      if (target) return { element: target, strategy: 'skip-link' }
     }
   }
 
   // 3. Try well-known IDs
-  for (const id of WELL_KNOWN_CONTENT_IDS) {
+  for (const id of config.contentIds) {
     const el = findById(doc, id)
-    if (el) return el
+    if (el) return { element: el, strategy: 'well-known-id' }
   }
 
   return null
@@ -500,37 +1514,694 @@ function findCoreContent(doc: Document): Element | null {
 /**
  * Strip chrome elements in core mode.
  * If no <main> exists, try to identify core content via fallbacks.
+ * Returns the strategy (and score, for 'score') that picked the content root.
  */
-function stripChrome(doc: Document): void {
+function stripChrome(
+  doc: Document,
+  removed: Record<RemovalReason, number>,
+  config: ResolvedConfig,
+  scored: CoreContentMatch | null = null,
+): Omit<CoreContentMatch, 'element'> {
   // First, strip all chrome elements recursively
-  removeChromeElements(doc)
+  removeChromeElements(doc, removed, config)
+
+  // Check if <main> or role="main" exists with real content
+  if (hasMainContent(doc)) return { strategy: 'main' }
+
+  // No main — try fallback content identification
+  const match = findCoreContent(doc, config)
+  if (!match) {
+    // The scored container was already isolated before processNode
+    return scored ? { strategy: scored.strategy, score: scored.score } : { strategy: 'body' }
+  }
+
+  isolateContent(doc, match.element)
+  return { strategy: match.strategy }
+}
 
-  // Check if <main> or role="main" exists
+/**
+ * Whether <main> or role="main" exists and has meaningful text.
+ * RSC streaming pages and SPAs may have an empty <main> shell.
+ */
+function hasMainContent(doc: Document): boolean {
   const mainEl = findElement(doc, 'main') ||
     findElements(doc, (el) => (el.attribs.role || '').toLowerCase() === 'main')[0] || null
+  return mainEl !== null && scoredText(mainEl).trim().length > 50
+}
 
-  if (mainEl) {
-    // main exists — but check if it has meaningful text content
-    // RSC streaming pages and SPAs may have an empty <main> shell
-    const mainText = textContent(mainEl).trim()
-    if (mainText.length > 50) {
-      // main has real content — chrome is already stripped, we're good
-      return
+/**
+ * Replace the document's children with just the core content element(s)
+ */
+function isolateContent(doc: Document, ...coreContent: Element[]): void {
+  const mutableDoc = doc as any
+  mutableDoc.children = coreContent
+  // Fix parent and prev/next
+  coreContent.forEach((el, i) => {
+    el.parent = doc
+    el.prev = coreContent[i - 1] ?? null
+    el.next = coreContent[i + 1] ?? null
+  })
+}
+
+/**
+ * Score-based fallback for core mode. Runs on the raw document, before
+ * processNode unwraps the presentational divs that scoring ranks; only kicks in
+ * when no semantic content root exists. Isolates the winner in place.
+ */
+function isolateScoredContent(doc: Document, config: ResolvedConfig): CoreContentMatch | null {
+  if (hasMainContent(doc) || findCoreContent(doc, config)) return null
+  const match = findContentByScore(doc)
+  if (match) isolateContent(doc, match.element)
+  return match
+}
+
+// ─── Selector filters ───────────────────────────────────────────────────────
+
+/**
+ * Match CSS selectors against the document, in document order.
+ * Throws WwwaxeConfigError for a selector css-select can't parse.
+ */
+function selectElements(doc: Document, option: 'include' | 'exclude', selectors: string | string[]): Element[] {
+  const matches = new Set<Element>()
+  for (const selector of Array.isArray(selectors) ? selectors : [selectors]) {
+    let selected: Element[]
+    try {
+      selected = selectAll<Node, Element>(selector, doc)
+    } catch (err) {
+      throw new WwwaxeConfigError('Invalid selector in ' + option + ': ' + JSON.stringify(selector) + ' (' + (err as Error).message + ')')
     }
-    // main is empty or near-empty — fall through to findCoreContent()
+    for (const el of selected) matches.add(el)
   }
+  // Selectors run one after another; restore document order
+  const order = findElements(doc, (el) => matches.has(el))
+  // Matches inside another match come along with it
+  return order.filter(el => {
+    for (let parent = el.parentNode; parent; parent = parent.parentNode) {
+      if (isTag(parent) && matches.has(parent)) return false
+    }
+    return true
+  })
+}
 
-  // No main — try fallback content identification
-  const coreContent = findCoreContent(doc)
-  if (coreContent) {
-    // Replace document children with just the core content
-    const mutableDoc = doc as any
-    coreContent.parent = doc
-    mutableDoc.children = [coreContent]
-    // Fix prev/next
-    ;(coreContent as any).prev = null
-    ;(coreContent as any).next = null
+/**
+ * Apply the include / exclude selectors, before processNode strips the classes
+ * and attributes they target. Excluded elements are removed; included elements
+ * replace the document's children, like core content does.
+ */
+function applySelectorFilters(doc: Document, options: WwwaxeOptions, removed: Record<RemovalReason, number>): void {
+  if (options.exclude) {
+    for (const el of selectElements(doc, 'exclude', options.exclude)) {
+      removeElement(el)
+      removed.excluded++
+    }
+  }
+  if (options.include) {
+    const included = selectElements(doc, 'include', options.include)
+    if (included.length > 0) isolateContent(doc, ...included)
+  }
+}
+
+// ─── Overlay removal ────────────────────────────────────────────────────────
+
+/** Well-known consent-manager ids / classes (OneTrust, Cookiebot, Didomi, TrustArc, Quantcast, Usercentrics, …) */
+const CONSENT_MANAGER_PATTERN = new RegExp([
+  '^onetrust-', '^ot-sdk-', '^optanon', 'cybotcookiebot', '^didomi-', '^truste-', 'trustarc',
+  '^qc-cmp', '^usercentrics', '^osano-cm', '^iubenda-cs', '^cky-consent', '^cmplz-cookiebanner',
+  '^sp_message_container', '^cookiescript_', '^cc-window', '^cc_banner', '^klaro',
+].join('|'), 'i')
+
+/** Generic id / class names of cookie, consent and newsletter overlays, e.g. `cookie-banner`, `newsletter-modal` */
+const OVERLAY_NAME_PATTERN =
+  /(?:^|[-_])(?:cookies?|consent|gdpr|newsletter|subscribe)[-_]?(?:banner|notice|bar|popup|modal|overlay|dialog|wall|prompt|layer)(?:$|[-_])/i
+
+/** Phrases that mark a small block of text as a consent or newsletter prompt */
+const OVERLAY_TEXT_SIGNALS = [
+  'accept all cookies', 'accept cookies', 'reject all cookies', 'we use cookies',
+  'this website uses cookies', 'this site uses cookies',
+  'subscribe to our newsletter', 'sign up for our newsletter',
+]
+
+/** Overlays matched by role / aria-modal / generic names or text must be smaller than this (text chars) */
+const OVERLAY_MAX_TEXT_LENGTH = 2000
+
+/** Tags that are never treated as overlays */
+const OVERLAY_EXEMPT_TAGS = new Set(['html', 'head', 'body', 'main', 'article'])
+
+/** Tags that may be matched on text signals alone */
+const OVERLAY_TEXT_TAGS = new Set(['div', 'section', 'aside', 'form', 'dialog', 'footer', 'header'])
+
+/**
+ * Describe an element as `tag#id.class1.class2` (first three classes)
+ */
+function describeElement(el: Element): string {
+  const id = el.attribs.id ? '#' + el.attribs.id : ''
+  const classes = (el.attribs.class || '').split(/\s+/).filter(Boolean).slice(0, 3).map(c => '.' + c).join('')
+  return el.tagName.toLowerCase() + id + classes
+}
+
+/**
+ * Get an element's text, or null once it grows past `limit` characters
+ * (stops walking early, so probing large containers stays cheap)
+ */
+function boundedText(el: Element, limit: number): string | null {
+  let text = ''
+  const walk = (node: Node): boolean => {
+    if (isText(node)) {
+      text += node.data.replace(/\s+/g, ' ')
+      // Node boundaries can leave doubled spaces — allow slack, the final check is exact
+      return text.length <= limit * 2
+    }
+    if (hasChildren(node)) {
+      for (const child of getChildren(node)) {
+        if (!walk(child)) return false
+      }
+    }
+    return true
+  }
+  if (!walk(el)) return null
+  const normalized = text.replace(/\s+/g, ' ').trim()
+  return normalized.length <= limit ? normalized : null
+}
+
+/**
+ * Decide whether an element is a cookie banner, consent wall or newsletter modal.
+ * Returns the matching signal, or null.
+ */
+function overlayReason(el: Element): string | null {
+  const tag = el.tagName.toLowerCase()
+  if (OVERLAY_EXEMPT_TAGS.has(tag)) return null
+
+  const names = [el.attribs.id || '', ...(el.attribs.class || '').split(/\s+/)].filter(Boolean)
+  let reason: string | null = null
+
+  const vendor = names.find(name => CONSENT_MANAGER_PATTERN.test(name))
+  if (vendor) {
+    reason = 'consent manager: ' + vendor
+  } else {
+    const role = (el.attribs.role || '').toLowerCase()
+    const generic = names.find(name => OVERLAY_NAME_PATTERN.test(name))
+    if (role === 'alertdialog') reason = 'role="alertdialog"'
+    else if ((el.attribs['aria-modal'] || '').toLowerCase() === 'true') reason = 'aria-modal="true"'
+    else if (generic) reason = 'overlay name: ' + generic
+
+    if (reason) {
+      if (boundedText(el, OVERLAY_MAX_TEXT_LENGTH) === null) return null
+    } else if (OVERLAY_TEXT_TAGS.has(tag)) {
+      // Only small blocks — an article about cookies must survive
+      const text = boundedText(el, OVERLAY_MAX_TEXT_LENGTH / 4)
+      const lower = text ? text.toLowerCase() : ''
+      const signal = OVERLAY_TEXT_SIGNALS.find(phrase => lower.includes(phrase))
+      // A prompt asks for a choice: require something to click or fill in (only scanned on a text signal)
+      if (signal && findElements(el, (child) => ['button', 'input', 'a'].includes(child.tagName.toLowerCase())).length > 0) {
+        reason = 'text: "' + signal + '"'
+      }
+    }
+  }
+
+  // Never take the page's main content down with an overlay
+  if (reason && findElements(el, (child) => OVERLAY_EXEMPT_TAGS.has(child.tagName.toLowerCase())).length > 0) {
+    return null
+  }
+  return reason
+}
+
+/**
+ * Remove cookie banners, consent walls and newsletter modals (core mode).
+ * Must be called BEFORE processNode since it matches on class and id.
+ * Text signals match the outermost small block, so each overlay is removed once.
+ */
+function removeOverlays(node: Node, removed: Record<RemovalReason, number>, overlays: OverlayRemoval[]): void {
+  if (!hasChildren(node)) return
+  for (const child of [...getChildren(node)]) {
+    if (!isTag(child)) continue
+    const reason = overlayReason(child)
+    if (reason) {
+      overlays.push({
+        element: describeElement(child),
+        reason,
+        text: textContent(child).replace(/\s+/g, ' ').trim().slice(0, 80),
+      })
+      removeElement(child)
+      removed.overlay++
+      continue
+    }
+    removeOverlays(child, removed, overlays)
+  }
+}
+
+// ─── Form summaries ─────────────────────────────────────────────────────────
+
+/** Form controls described in a form summary */
+const FORM_FIELD_TAGS = new Set(['input', 'select', 'textarea', 'button'])
+
+/** Input types that submit the form */
+const SUBMIT_INPUT_TYPES = new Set(['submit', 'image'])
+
+/**
+ * Normalized text of an element, leaving out nested form controls
+ * (so a wrapping label doesn't include its select's options)
+ */
+function labelText(node: Node): string {
+  const collect = (n: Node): string => {
+    if (isText(n)) return n.data
+    if (isTag(n) && FORM_FIELD_TAGS.has(n.tagName.toLowerCase())) return ' '
+    return hasChildren(n) ? getChildren(n).map(collect).join('') : ''
+  }
+  const text = hasChildren(node) ? getChildren(node).map(collect).join('') : ''
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Text of the label pointing at a control with `for`, or '' when there is none
+ */
+function labelForText(doc: Document, field: Element): string {
+  const id = field.attribs.id
+  if (!id) return ''
+  const label = findElements(doc, (el) => el.tagName.toLowerCase() === 'label' && el.attribs.for === id)[0]
+  return label ? labelText(label) : ''
+}
+
+/**
+ * Resolve a control's label from `for`, a wrapping label, aria-label,
+ * aria-labelledby or placeholder, in that order
+ */
+function resolveFieldLabel(doc: Document, field: Element): string {
+  const forLabel = labelForText(doc, field)
+  if (forLabel) return forLabel
+
+  for (let parent = field.parentNode; parent && isTag(parent); parent = parent.parentNode) {
+    if (parent.tagName.toLowerCase() !== 'label') continue
+    const text = labelText(parent)
+    if (text) return text
+    break
+  }
+
+  const ariaLabel = (field.attribs['aria-label'] || '').trim()
+  if (ariaLabel) return ariaLabel
+
+  const labelledBy = (field.attribs['aria-labelledby'] || '').split(/\s+/)
+    .map(ref => ref ? findById(doc, ref) : null)
+    .filter((el): el is Element => el !== null)
+    .map(labelText)
+    .join(' ')
+    .trim()
+  if (labelledBy) return labelledBy
+
+  return (field.attribs.placeholder || '').trim()
+}
+
+/**
+ * Describe one form control as `Label (type: …, name: …, required, value: …, options: …)`
+ */
+function describeFormField(doc: Document, field: Element): string {
+  const tag = field.tagName.toLowerCase()
+  const type = tag === 'input' ? (field.attribs.type || 'text').toLowerCase() : tag
+  const details = ['type: ' + (tag === 'select' && field.attribs.multiple !== undefined ? 'select multiple' : type)]
+
+  if (field.attribs.name) details.push('name: ' + field.attribs.name)
+  if (field.attribs.required !== undefined) details.push('required')
+  if (field.attribs.disabled !== undefined) details.push('disabled')
+
+  if (tag === 'select') {
+    const options = findElements(field, (el) => el.tagName.toLowerCase() === 'option')
+    const selected = options.filter(option => option.attribs.selected !== undefined)
+    const optionValue = (option: Element) => option.attribs.value ?? labelText(option)
+    const current = selected.length > 0 ? selected : options.slice(0, field.attribs.multiple !== undefined ? 0 : 1)
+    if (current.length > 0) details.push('value: ' + current.map(optionValue).join(', '))
+    if (options.length > 0) {
+      details.push('options: ' + options.map(option => {
+        const text = labelText(option)
+        const value = optionValue(option)
+        return value === text ? text : text + '=' + value
+      }).join(' | '))
+    }
+  } else if (type === 'checkbox' || type === 'radio') {
+    if (field.attribs.value) details.push('value: ' + field.attribs.value)
+    details.push(field.attribs.checked !== undefined ? 'checked' : 'unchecked')
+  } else {
+    const value = tag === 'textarea' ? textContent(field).trim() : (field.attribs.value || '')
+    if (value) details.push('value: ' + value)
   }
+
+  const label = resolveFieldLabel(doc, field)
+  return (label || field.attribs.name || type) + ' (' + details.join(', ') + ')'
+}
+
+/**
+ * Whether a control submits its form: <button> (submit by default), input[type=submit|image]
+ */
+function isSubmitControl(field: Element): boolean {
+  const tag = field.tagName.toLowerCase()
+  const type = (field.attribs.type || '').toLowerCase()
+  if (tag === 'button') return type === '' || type === 'submit'
+  return tag === 'input' && SUBMIT_INPUT_TYPES.has(type)
+}
+
+/**
+ * Replace each <form> with a compact summary: a `Form: METHOD action` line,
+ * then a list of its fields and submit buttons. Hidden inputs and
+ * non-submitting buttons are left out.
+ *
+ * Must be called BEFORE processNode since label lookups need id attributes.
+ */
+function summarizeForms(doc: Document, baseUrl: string | undefined): void {
+  for (const form of findElements(doc, (el) => el.tagName.toLowerCase() === 'form')) {
+    if (!form.parentNode) continue
+
+    const method = (form.attribs.method || 'get').toUpperCase()
+    const action = form.attribs.action ? ' ' + resolveUrl(form.attribs.action, baseUrl) : ''
+    const items: string[] = []
+
+    const fields = findElements(form, (el) => FORM_FIELD_TAGS.has(el.tagName.toLowerCase()))
+    for (const field of fields) {
+      if (field.attribs.hidden !== undefined || (field.attribs.type || '').toLowerCase() === 'hidden') continue
+      if (isSubmitControl(field)) {
+        const text = labelText(field) || field.attribs.value || field.attribs['aria-label'] || field.attribs.alt || 'Submit'
+        items.push('Submit: ' + text)
+      } else if (field.tagName.toLowerCase() !== 'button' && !['reset', 'button'].includes((field.attribs.type || '').toLowerCase())) {
+        items.push(describeFormField(doc, field))
+      }
+    }
+
+    const summary = createElement('div', [
+      createElement('p', [new Text('Form: ' + method + action)]),
+      ...(items.length > 0 ? [createElement('ul', items.map(item => createElement('li', [new Text(item)])))] : []),
+    ])
+    replaceElement(form, summary)
+    unwrapElement(summary)
+  }
+}
+
+// ─── Element references ─────────────────────────────────────────────────────
+
+/** Tags that get a `[#n]` reference (links only with an href, inputs unless hidden) */
+const INTERACTIVE_TAGS = new Set(['a', 'button', 'input', 'select', 'textarea'])
+
+/** ARIA roles that make any element interactive */
+const INTERACTIVE_ROLES = new Set([
+  'button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'option', 'combobox', 'textbox', 'searchbox',
+])
+
+function isInteractive(el: Element): boolean {
+  const tag = el.tagName.toLowerCase()
+  if (tag === 'a') return el.attribs.href !== undefined
+  if (tag === 'input') return (el.attribs.type || '').toLowerCase() !== 'hidden'
+  if (INTERACTIVE_TAGS.has(tag)) return true
+  return INTERACTIVE_ROLES.has((el.attribs.role || '').toLowerCase())
+}
+
+/**
+ * 1-based position among same-tag siblings, or 0 when the tag is unique among them
+ */
+function sameTagIndex(el: Element): number {
+  const parent = el.parentNode
+  if (!parent) return 0
+  const tag = el.tagName.toLowerCase()
+  const siblings = getChildren(parent).filter((child): child is Element => isTag(child) && child.tagName.toLowerCase() === tag)
+  return siblings.length > 1 ? siblings.indexOf(el) + 1 : 0
+}
+
+/**
+ * Build a CSS selector and an XPath for an element. Uses the id when it is
+ * unique in the document, otherwise the tag path from the root.
+ */
+function locateElement(el: Element, idCounts: Map<string, number>): ElementRef {
+  const id = el.attribs.id
+  if (id && idCounts.get(id) === 1) {
+    const selector = /^[A-Za-z_][\w-]*$/.test(id) ? '#' + id : '[id="' + id.replace(/["\\]/g, '\\$&') + '"]'
+    const xpath = '//*[@id=' + (id.includes('"') ? "'" + id + "'" : '"' + id + '"') + ']'
+    return { selector, xpath }
+  }
+
+  const cssSteps: string[] = []
+  const xpathSteps: string[] = []
+  let node: Element = el
+  for (;;) {
+    const tag = node.tagName.toLowerCase()
+    const index = sameTagIndex(node)
+    cssSteps.unshift(index ? tag + ':nth-of-type(' + index + ')' : tag)
+    xpathSteps.unshift(index ? tag + '[' + index + ']' : tag)
+    const parent = node.parentNode
+    if (!parent || !isTag(parent)) break
+    // Browsers wrap rows placed directly in a table in an implicit <tbody>
+    if (tag === 'tr' && parent.tagName.toLowerCase() === 'table') {
+      cssSteps.unshift('tbody')
+      xpathSteps.unshift('tbody')
+    }
+    node = parent
+  }
+  // Parsed fragments have no <html> root; don't anchor their XPath at the document
+  const xpathRoot = node.tagName.toLowerCase() === 'html' ? '/' : '//'
+  return { selector: cssSteps.join(' > '), xpath: xpathRoot + xpathSteps.join('/') }
+}
+
+/**
+ * Compute selectors for every interactive element of the freshly parsed document.
+ * Must be called BEFORE anything moves elements or processNode strips ids.
+ */
+function locateInteractiveElements(doc: Document): Map<Element, ElementRef> {
+  const idCounts = new Map<string, number>()
+  for (const el of findElements(doc, (e) => e.attribs.id !== undefined)) {
+    idCounts.set(el.attribs.id, (idCounts.get(el.attribs.id) || 0) + 1)
+  }
+  const located = new Map<Element, ElementRef>()
+  for (const el of findElements(doc, isInteractive)) {
+    located.set(el, locateElement(el, idCounts))
+  }
+  return located
+}
+
+/**
+ * Number the interactive elements that survived cleanup in document order,
+ * inserting a ` [#n]` marker after each. Returns the reference map.
+ */
+function assignElementRefs(doc: Document, located: Map<Element, ElementRef>): Record<number, ElementRef> {
+  const refs: Record<number, ElementRef> = {}
+  let next = 1
+  for (const el of findElements(doc, (e) => located.has(e))) {
+    const ref = next++
+    refs[ref] = located.get(el)!
+    append(el, new Text(' [#' + ref + ']'))
+  }
+  return refs
+}
+
+// ─── Plugins ────────────────────────────────────────────────────────────────
+
+/** The plugins that apply to the current page, with their shared context */
+interface PluginRun {
+  plugins: WwwaxePlugin[]
+  context: WwwaxePluginContext
+}
+
+function parsePageUrl(value: string | undefined): URL | undefined {
+  if (!value) return undefined
+  try {
+    return new URL(value)
+  } catch {
+    return undefined
+  }
+}
+
+function matchesUrl(matcher: PluginMatcher, url: URL): boolean {
+  if (typeof matcher === 'function') return matcher(url)
+  if (matcher instanceof RegExp) return matcher.test(url.href)
+  const pattern = matcher.toLowerCase()
+  if (pattern.includes('/')) return (url.host + url.pathname).startsWith(pattern)
+  if (pattern.startsWith('*.')) return url.hostname === pattern.slice(2) || url.hostname.endsWith(pattern.slice(1))
+  return url.hostname === pattern
+}
+
+/**
+ * Pick the plugins whose matcher accepts the page URL. Without `baseUrl`, the
+ * raw HTML is parsed up front to find the `<base href>` or canonical / og:url,
+ * so that every hook (preParse included) of a matching plugin runs.
+ */
+function resolvePlugins(html: string, options: WwwaxeOptions): PluginRun | null {
+  if (!options.plugins || options.plugins.length === 0) return null
+  let pageUrl = options.baseUrl
+  if (!pageUrl) {
+    const doc = parseDocument(html, { decodeEntities: true })
+    pageUrl = findBaseUrl(doc, options, extractFrontmatter(doc))
+  }
+  const url = parsePageUrl(pageUrl)
+  const plugins = options.plugins.filter(plugin => {
+    if (plugin.match === undefined) return true
+    if (!url) return false
+    const matchers = Array.isArray(plugin.match) ? plugin.match : [plugin.match]
+    return matchers.some(matcher => matchesUrl(matcher, url))
+  })
+  return plugins.length > 0 ? { plugins, context: { url, options } } : null
+}
+
+/**
+ * Run a string-rewriting hook (preParse, postSerialize) of each plugin in turn
+ */
+function runStringHooks(run: PluginRun, hook: 'preParse' | 'postSerialize', value: string): string {
+  for (const plugin of run.plugins) {
+    const result = plugin[hook]?.(value, run.context)
+    if (typeof result === 'string') value = result
+  }
+  return value
+}
+
+/**
+ * Run a document hook (postParse, preMarkdown) of each plugin in turn
+ */
+function runDocumentHooks(run: PluginRun, hook: 'postParse' | 'preMarkdown', doc: Document): void {
+  for (const plugin of run.plugins) plugin[hook]?.(doc, run.context)
+}
+
+/** The nodes that took an element's place after an element hook acted */
+interface ElementHookResult {
+  nodes: ChildNode[]
+  /** Whether the nodes came from the plugin (replacement) rather than the page (unwrapped children) */
+  replaced: boolean
+}
+
+/**
+ * Ask the plugins' element hooks what to do with an element and apply the first answer.
+ * Returns the nodes that took the element's place, or null when no plugin acted.
+ */
+function applyElementHooks(el: Element, run: PluginRun): ElementHookResult | null {
+  for (const plugin of run.plugins) {
+    const action = plugin.element?.(el, run.context)
+    if (action === undefined) continue
+
+    if (action === 'remove') {
+      removeElement(el)
+      return { nodes: [], replaced: false }
+    }
+    if (action === 'unwrap') {
+      const children = [...getChildren(el)]
+      unwrapElement(el)
+      return { nodes: children, replaced: false }
+    }
+    const replacement = typeof action === 'string'
+      ? [...getChildren(parseDocument(action, { decodeEntities: true }))]
+      : Array.isArray(action) ? action : [action]
+    for (const node of replacement) prepend(el, node)
+    removeElement(el)
+    return { nodes: replacement, replaced: true }
+  }
+  return null
+}
+
+// ─── Images ─────────────────────────────────────────────────────────────────
+
+/** Elements handled by the images option */
+const IMAGE_TAGS = new Set(['img', 'picture'])
+
+/** Hosts serving only tracking pixels */
+const TRACKING_PIXEL_HOSTS = [
+  'google-analytics.com', 'googletagmanager.com', 'doubleclick.net', 'facebook.net',
+  'bat.bing.com', 'px.ads.linkedin.com', 'analytics.twitter.com', 'pixel.wp.com', 'stats.wp.com',
+  'scorecardresearch.com', 'quantserve.com', 'ct.pinterest.com', 'sc-static.net',
+  'hotjar.com', 'mc.yandex.ru',
+]
+
+/** Hosts that also serve real images: only their tracking paths are pixels */
+const TRACKING_PIXEL_PATHS: Record<string, RegExp> = {
+  'facebook.com': /^\/tr\/?$/,
+  't.co': /^\/i\/adsct\/?$/,
+}
+
+/** File names of spacer and pixel images */
+const SPACER_IMAGE_PATTERN = /(?:^|[/_-])(?:spacer|blank|pixel|transparent|clear|1x1|trans)\.(?:gif|png)(?:$|[?#])/i
+
+/**
+ * Parse a width / height attribute or inline style length, in pixels
+ */
+function imageDimension(el: Element, name: 'width' | 'height'): number | undefined {
+  const style = (el.attribs.style || '').match(new RegExp('(?:^|;)\\s*' + name + '\\s*:\\s*([\\d.]+)px', 'i'))
+  const value = style ? style[1] : (el.attribs[name] || '').trim().replace(/px$/i, '')
+  if (value === '' || !/^\d+(?:\.\d+)?$/.test(value)) return undefined
+  return Number(value)
+}
+
+/**
+ * Whether an image is a tracking pixel or spacer: at most 1×1 in both dimensions,
+ * served from a known pixel host (or the pixel path of a shared host), or named
+ * like spacer.gif. A 1px-tall separator or a placeholder with one real dimension
+ * is not a pixel.
+ */
+function isTrackingImage(el: Element): boolean {
+  const width = imageDimension(el, 'width')
+  const height = imageDimension(el, 'height')
+  if (width !== undefined && height !== undefined && width <= 1 && height <= 1) return true
+
+  const src = (el.attribs.src || '').trim()
+  if (SPACER_IMAGE_PATTERN.test(src)) return true
+  try {
+    const url = new URL(src, 'https://invalid/')
+    const host = url.hostname.toLowerCase()
+    const onHost = (pixelHost: string) => host === pixelHost || host.endsWith('.' + pixelHost)
+    if (TRACKING_PIXEL_HOSTS.some(onHost)) return true
+    return Object.entries(TRACKING_PIXEL_PATHS).some(([pixelHost, path]) => onHost(pixelHost) && path.test(url.pathname))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Pick the largest candidate of a srcset: the widest `w` descriptor, else the highest density
+ */
+function bestSrcsetCandidate(srcset: string): string | undefined {
+  let best: string | undefined
+  let bestScore = -1
+  for (const candidate of srcset.split(',')) {
+    const [url, descriptor = '1x'] = candidate.trim().split(/\s+/)
+    if (!url || url.startsWith('data:')) continue
+    const match = descriptor.match(/^([\d.]+)([wx])$/i)
+    // Widths always outrank densities
+    const score = match ? Number(match[1]) * (match[2].toLowerCase() === 'w' ? 1000 : 1) : 1
+    if (score > bestScore) {
+      best = url
+      bestScore = score
+    }
+  }
+  return best
+}
+
+/**
+ * Apply the images option to an <img>, or a <picture> and its <source> alternatives
+ * (the <img> fallback stands for the picture, with the sources' candidates added to
+ * its srcset). Returns the nodes that took the element's place, or null when it is kept.
+ */
+function applyImagePolicy(el: Element, mode: 'alt-only' | 'drop' | 'smart'): ChildNode[] | null {
+  const tag = el.tagName.toLowerCase()
+  if (tag === 'picture') {
+    const sources = getChildren(el).filter((child): child is Element => isTag(child) && child.tagName.toLowerCase() === 'source')
+    const img = getChildren(el).find((child): child is Element => isTag(child) && child.tagName.toLowerCase() === 'img')
+    if (img) {
+      const srcsets = [img.attribs.srcset, ...sources.map(source => source.attribs.srcset)]
+        .filter((srcset): srcset is string => !!srcset && srcset.trim() !== '')
+      if (srcsets.length > 0) img.attribs.srcset = srcsets.join(', ')
+    }
+    for (const source of sources) removeElement(source)
+    const children = [...getChildren(el)]
+    unwrapElement(el)
+    return children
+  }
+
+  const alt = (el.attribs.alt || '').trim()
+  if (mode === 'alt-only' && alt) {
+    replaceWithText(el, '[image: ' + alt + ']')
+    return []
+  }
+  if (mode !== 'smart' || !alt || isTrackingImage(el)) {
+    removeElement(el)
+    return []
+  }
+
+  // The src counts as a 1x candidate
+  const candidates = [el.attribs.src, el.attribs.srcset].filter(Boolean).join(', ')
+  const best = el.attribs.srcset ? bestSrcsetCandidate(candidates) : undefined
+  if (best) {
+    el.attribs.src = best
+    delete el.attribs.srcset
+  }
+  return null
 }
 
 // ─── Existing v1 helpers ────────────────────────────────────────────────────
@@ -568,7 +2239,7 @@ function isUsefulLink(el: Element): boolean {
 /**
  * Strip attributes from an element, keeping only content-relevant ones
  */
-function stripAttributes(el: Element, options: WwwaxeOptions): void {
+function stripAttributes(el: Element, options: WwwaxeOptions, config: ResolvedConfig): void {
   const newAttribs: Record<string, string> = {}
 
   for (const [key, value] of Object.entries(el.attribs)) {
@@ -595,7 +2266,7 @@ function stripAttributes(el: Element, options: WwwaxeOptions): void {
     }
 
     // Keep if in allowlist
-    if (CONTENT_ATTRIBUTES.has(lowerKey)) {
+    if (config.contentAttributes.has(lowerKey)) {
       // Strip data URIs from src-like attributes — they can be 250KB+ of base64
       if ((lowerKey === 'src' || lowerKey === 'poster') && value.trimStart().startsWith('data:')) {
         continue
@@ -607,10 +2278,14 @@ function stripAttributes(el: Element, options: WwwaxeOptions): void {
           .filter(s => !s.startsWith('data:'))
           .join(', ')
         if (cleaned) {
-          newAttribs[key] = cleaned
+          newAttribs[key] = resolveSrcset(cleaned, options.baseUrl)
         }
         continue
       }
+      if (URL_ATTRIBUTES.has(lowerKey)) {
+        newAttribs[key] = resolveUrl(value, options.baseUrl)
+        continue
+      }
       newAttribs[key] = value
     }
   }
@@ -641,7 +2316,7 @@ function hasMeaningfulContent(node: Node): boolean {
   if (isTag(node)) {
     // Self-closing content elements are meaningful
     const tag = node.tagName.toLowerCase()
-    if (['img', 'input', 'br', 'hr', 'video', 'audio', 'source', 'track'].includes(tag)) {
+    if (['img', 'input', 'br', 'hr', 'video', 'audio', 'source', 'track', 'iframe'].includes(tag)) {
       return true
     }
     // Check children
@@ -655,10 +2330,10 @@ function hasMeaningfulContent(node: Node): boolean {
 /**
  * Check if an element has any content-relevant attributes worth preserving
  */
-function hasContentAttributes(el: Element, options: WwwaxeOptions = {}): boolean {
+function hasContentAttributes(el: Element, options: WwwaxeOptions, config: ResolvedConfig): boolean {
   for (const key of Object.keys(el.attribs)) {
     const lowerKey = key.toLowerCase()
-    if (CONTENT_ATTRIBUTES.has(lowerKey)) return true
+    if (config.contentAttributes.has(lowerKey)) return true
     if (lowerKey === 'id' && options.keepIds !== false) return true
     if (lowerKey === 'class' && options.keepClasses) return true
     if (isDataAttribute(lowerKey) && options.keepDataAttributes) return true
@@ -669,63 +2344,103 @@ function hasContentAttributes(el: Element, options: WwwaxeOptions = {}): boolean
 /**
  * Process the DOM tree, stripping non-content nodes
  */
-function processNode(node: Node, options: WwwaxeOptions, unwrapTags: Set<string>): void {
+function processNode(
+  node: Node,
+  options: WwwaxeOptions,
+  config: ResolvedConfig,
+  removed: Record<RemovalReason, number>,
+  plugins: PluginRun | null = null,
+): void {
   // Remove comments
   if (node.type === 'comment') {
     removeElement(node as ChildNode)
+    removed.comment++
     return
   }
 
   if (!isTag(node)) return
 
+  // Site-specific plugin rules (before attributes are stripped)
+  if (plugins) {
+    const result = applyElementHooks(node, plugins)
+    if (result) {
+      removed.plugin++
+      // Replacement markup skips the element hooks: a hook matching its own output would never stop
+      const childPlugins = result.replaced ? null : plugins
+      for (const child of result.nodes) processNode(child, options, config, removed, childPlugins)
+      return
+    }
+  }
+
   const tag = node.tagName.toLowerCase()
 
   // Remove entire tag + children for blacklisted tags
-  if (REMOVE_TAGS.has(tag)) {
+  if (config.removeTags.has(tag)) {
     // Exception: keep useful link tags
     if (tag === 'link' && isUsefulLink(node)) {
-      stripAttributes(node, options)
+      stripAttributes(node, options, config)
       return
     }
     removeElement(node)
+    removed.tag++
     return
   }
 
   // Remove hidden elements
   if (isHidden(node, options)) {
     removeElement(node)
+    removed.hidden++
     return
   }
 
   // Filter meta tags — only keep useful ones
   if (tag === 'meta' && !isUsefulMeta(node)) {
     removeElement(node)
+    removed.meta++
     return
   }
 
+  // Image policy (before width / height / style are stripped)
+  if (IMAGE_TAGS.has(tag) && options.images && options.images !== 'keep') {
+    const replacement = applyImagePolicy(node, options.images)
+    if (replacement) {
+      removed.image++
+      for (const child of replacement) processNode(child, options, config, removed, plugins)
+      return
+    }
+  }
+
+  // Record code block language (before attributes are stripped, here and on the inner <code>)
+  if (tag === 'pre') {
+    const language = detectCodeLanguage(node)
+    if (language) codeLanguages.set(node, language)
+  }
+
   // Process children first (bottom-up)
   if (hasChildren(node)) {
     // Copy array since we may modify during iteration
     const children = [...getChildren(node)]
     for (const child of children) {
-      processNode(child, options, unwrapTags)
+      processNode(child, options, config, removed, plugins)
     }
   }
 
   // Strip attributes on all kept elements
-  stripAttributes(node, options)
+  stripAttributes(node, options, config)
 
-  // For tags not in KEEP_TAGS and not in UNWRAP_TAGS, decide based on whether
+  // For tags not in keepTags and not in unwrapTags, decide based on whether
   // they have meaningful content
-  if (!KEEP_TAGS.has(tag)) {
-    if (unwrapTags.has(tag) && !hasContentAttributes(node, options)) {
+  if (!config.keepTags.has(tag)) {
+    if (config.unwrapTags.has(tag) && !hasContentAttributes(node, options, config)) {
       // Unwrap: replace element with its children (only if no meaningful attributes)
       unwrapElement(node)
+      removed.unwrapped++
       return
     }
     // Unknown tag — keep if it has content, otherwise remove
     if (!hasMeaningfulContent(node)) {
       removeElement(node)
+      removed.empty++
       return
     }
     // Keep unknown tags that have content (custom elements, etc.)
@@ -736,6 +2451,7 @@ function processNode(node: Node, options: WwwaxeOptions, unwrapTags: Set<string>
   const headElements = new Set(['head', 'html', 'body', 'title'])
   if (!voidElements.has(tag) && !headElements.has(tag) && !hasMeaningfulContent(node)) {
     removeElement(node)
+    removed.empty++
   }
 }
 
@@ -781,18 +2497,18 @@ function unwrapElement(el: Element): void {
 }
 
 /**
- * Replace an element with a text node in the DOM
+ * Replace a node with a text node in the DOM
  */
-function replaceWithText(el: Element, text: string): void {
+function replaceWithText(el: ChildNode, text: string): Text | null {
   const parent = el.parentNode
-  if (!parent || !hasChildren(parent)) return
+  if (!parent || !hasChildren(parent)) return null
 
   const textNode = new Text(text)
   textNode.parent = parent
 
   const parentChildren = getChildren(parent)
   const index = parentChildren.indexOf(el)
-  if (index === -1) return
+  if (index === -1) return null
 
   const mutableParent = parent as any
   mutableParent.children = [
@@ -808,6 +2524,8 @@ function replaceWithText(el: Element, text: string): void {
     child.prev = i > 0 ? allChildren[i - 1] : null
     child.next = i < allChildren.length - 1 ? allChildren[i + 1] : null
   }
+
+  return textNode
 }
 
 /**
@@ -821,17 +2539,358 @@ function getMdTextContent(node: Node): string {
   return ''
 }
 
+// ─── Markdown tables ────────────────────────────────────────────────────────
+
+/** Block-level tags that make a table cell too complex for a GFM pipe table */
+const TABLE_CELL_BLOCK_TAGS = new Set([
+  'p', 'ul', 'ol', 'dl', 'pre', 'blockquote', 'hr', 'table', 'figure', 'details',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'section', 'article', 'form', 'fieldset',
+])
+
+function isTagNamed(node: Node, ...tagNames: string[]): node is Element {
+  return isTag(node) && tagNames.includes(node.tagName.toLowerCase())
+}
+
+/**
+ * Collect a table's rows in document order (direct rows plus thead/tbody/tfoot rows)
+ */
+function getTableRows(table: Element): Element[] {
+  const rows: Element[] = []
+  for (const child of getChildren(table)) {
+    if (isTagNamed(child, 'tr')) {
+      rows.push(child)
+    } else if (isTagNamed(child, 'thead', 'tbody', 'tfoot')) {
+      rows.push(...getChildren(child).filter((c): c is Element => isTagNamed(c, 'tr')))
+    }
+  }
+  return rows
+}
+
+function getRowCells(row: Element): Element[] {
+  return getChildren(row).filter((c): c is Element => isTagNamed(c, 'td', 'th'))
+}
+
+/**
+ * Find the header row: the first <thead> row, or a first row made only of <th> cells
+ */
+function getTableHeaderRow(table: Element): Element | null {
+  const thead = getChildren(table).find(c => isTagNamed(c, 'thead'))
+  if (thead) {
+    return getChildren(thead).find((c): c is Element => isTagNamed(c, 'tr')) || null
+  }
+  const first = getTableRows(table)[0]
+  if (!first) return null
+  const cells = getRowCells(first)
+  return cells.length > 0 && cells.every(c => isTagNamed(c, 'th')) ? first : null
+}
+
+/**
+ * Check if a table can be expressed as a GFM pipe table.
+ * Must be called BEFORE the table's children are rewritten to markdown text.
+ */
+function isSimpleTable(table: Element): boolean {
+  if (!getTableHeaderRow(table)) return false
+  for (const row of getTableRows(table)) {
+    for (const cell of getRowCells(row)) {
+      const colspan = cell.attribs.colspan
+      const rowspan = cell.attribs.rowspan
+      if ((colspan && colspan !== '1') || (rowspan && rowspan !== '1')) return false
+      if (findElements(cell, (el) => el !== cell && TABLE_CELL_BLOCK_TAGS.has(el.tagName.toLowerCase())).length > 0) {
+        return false
+      }
+    }
+  }
+  return true
+}
+
+/**
+ * Render a single cell as pipe-table text: one line, pipes escaped
+ */
+function tableCellText(cell: Element): string {
+  return getMdTextContent(cell).replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|')
+}
+
+/**
+ * Render a simple table as a GFM pipe table
+ */
+function tableToMarkdown(table: Element): string {
+  const headerRow = getTableHeaderRow(table)!
+  const bodyRows = getTableRows(table).filter(row => row !== headerRow)
+  const header = getRowCells(headerRow).map(tableCellText)
+  const body = bodyRows.map(row => getRowCells(row).map(tableCellText))
+  const width = Math.max(header.length, ...body.map(cells => cells.length))
+
+  const line = (cells: string[]) => {
+    const padded = [...cells]
+    while (padded.length < width) padded.push('')
+    return '| ' + padded.join(' | ') + ' |'
+  }
+
+  const lines = [line(header), line(new Array(width).fill('---')), ...body.map(line)]
+
+  const caption = getChildren(table).find(c => isTagNamed(c, 'caption'))
+  if (caption) {
+    const captionText = getMdTextContent(caption).replace(/\s+/g, ' ').trim()
+    if (captionText) lines.unshift(captionText, '')
+  }
+
+  return '\n' + lines.join('\n') + '\n'
+}
+
+// ─── Markdown lists ─────────────────────────────────────────────────────────
+
+/**
+ * Check if a list sits directly in another list or list item (and is rendered by
+ * its outer list). Lists inside a wrapper (a kept div, a blockquote) render
+ * themselves, and the item picks up the wrapper's text.
+ */
+function isNestedList(el: Element): boolean {
+  return !!el.parentNode && isTagNamed(el.parentNode, 'li', 'ul', 'ol')
+}
+
+/**
+ * Indent every non-empty line
+ */
+function indentLines(lines: string[], indent: string): string[] {
+  return lines.map(line => line ? indent + line : line)
+}
+
+/**
+ * Render a list item's content as unindented lines. Paragraphs become
+ * blank-line separated continuation blocks; nested lists and other blocks
+ * (wrappers, quotes) follow directly.
+ */
+function renderListItem(item: Element): string[] {
+  const blocks: { kind: 'text' | 'block', lines: string[] }[] = []
+  let inline = ''
+
+  const toLines = (text: string) => text.split('\n').map(line => line.trimEnd())
+  const flushInline = () => {
+    const text = inline.trim()
+    if (text) blocks.push({ kind: 'text', lines: toLines(text) })
+    inline = ''
+  }
+
+  for (const child of getChildren(item)) {
+    if (isTagNamed(child, 'ul', 'ol')) {
+      flushInline()
+      blocks.push({ kind: 'block', lines: renderList(child) })
+    } else if (isTagNamed(child, 'p')) {
+      flushInline()
+      inline = getMdTextContent(child)
+      flushInline()
+    } else if (isTag(child) && !INLINE_TEXT_TAGS.has((child as Element).tagName.toLowerCase())) {
+      flushInline()
+      const text = getMdTextContent(child).trim()
+      if (text) blocks.push({ kind: 'block', lines: toLines(text) })
+    } else {
+      inline += getMdTextContent(child)
+    }
+  }
+  flushInline()
+
+  const lines: string[] = []
+  blocks.forEach((block, i) => {
+    if (i > 0 && block.kind === 'text') lines.push('')
+    lines.push(...block.lines)
+  })
+  return lines.length > 0 ? lines : ['']
+}
+
+/**
+ * Render a ul/ol as markdown lines, recursing into nested lists.
+ * Ordered lists honor the start and reversed attributes.
+ */
+function renderList(list: Element): string[] {
+  const ordered = isTagNamed(list, 'ol')
+  const reversed = ordered && list.attribs.reversed !== undefined
+  const itemCount = getChildren(list).filter(c => isTagNamed(c, 'li')).length
+  const start = parseInt(list.attribs.start || '', 10)
+  let number = Number.isNaN(start) ? (reversed ? itemCount : 1) : start
+
+  const lines: string[] = []
+  let indent = ''
+  for (const child of getChildren(list)) {
+    // A list directly inside a list (invalid, but common) nests under the previous item
+    if (isTagNamed(child, 'ul', 'ol')) {
+      lines.push(...indentLines(renderList(child), indent))
+      continue
+    }
+    if (!isTagNamed(child, 'li')) continue
+
+    const marker = ordered ? number + '. ' : '- '
+    number += reversed ? -1 : 1
+    indent = ' '.repeat(marker.length)
+
+    const [first, ...rest] = renderListItem(child)
+    lines.push((marker + first).trimEnd(), ...indentLines(rest, indent))
+  }
+  return lines
+}
+
+// ─── Markdown definition lists, details and figures ────────────────────────
+
+/**
+ * Render a dl as `**term**` lines, each followed by `: definition` lines.
+ * Multi-line definitions are indented under their marker; groups are blank-line separated.
+ */
+function renderDefinitionList(dl: Element): string {
+  const lines: string[] = []
+  let previous: 'dt' | 'dd' | null = null
+
+  for (const child of getChildren(dl)) {
+    if (!isTag(child)) continue
+    const tag = child.tagName.toLowerCase()
+    const text = getMdTextContent(child).trim()
+    if (tag === 'dt') {
+      if (previous === 'dd') lines.push('')
+      lines.push('**' + text.replace(/\s*\n\s*/g, ' ') + '**')
+      previous = 'dt'
+    } else if (tag === 'dd') {
+      const [first, ...rest] = text.split('\n').map(line => line.trimEnd())
+      lines.push(': ' + first, ...indentLines(rest, '  '))
+      previous = 'dd'
+    }
+  }
+  return '\n' + lines.join('\n') + '\n'
+}
+
+/**
+ * Rewrite details as its bold summary followed by the body, keeping any
+ * remaining HTML in the body intact
+ */
+function rewriteDetails(details: Element): void {
+  const summary = getChildren(details).find(child => isTagNamed(child, 'summary'))
+  if (summary) {
+    const text = getMdTextContent(summary).replace(/\s+/g, ' ').trim()
+    replaceWithText(summary, text ? '\n**' + text + '**\n\n' : '')
+  }
+  appendChild(details, new Text('\n'))
+  unwrapElement(details)
+}
+
+/**
+ * Rewrite figure as its content (usually an image) followed by the caption in italics
+ */
+function rewriteFigure(figure: Element): void {
+  const caption = getChildren(figure).find(child => isTagNamed(child, 'figcaption'))
+  prependChild(figure, new Text('\n'))
+  if (caption) {
+    const text = getMdTextContent(caption).replace(/\s+/g, ' ').trim()
+    removeElement(caption)
+    if (text) appendChild(figure, new Text('\n*' + text + '*'))
+  }
+  appendChild(figure, new Text('\n'))
+  unwrapElement(figure)
+}
+
+// ─── Markdown links ─────────────────────────────────────────────────────────
+
+/** Delimit a reference-style link's URL until serialize() numbers it (private-use characters) */
+const REFERENCE_START = '\uE001'
+const REFERENCE_END = '\uE002'
+const REFERENCE_PATTERN = /\uE001([^\uE002]*)\uE002/g
+const REFERENCE_DELIMITERS = /[\uE001\uE002]/g
+
+/**
+ * Remove the reference delimiters from the page's own text and attributes
+ * (icon fonts use private-use characters) so only our markers remain
+ */
+function stripReferenceDelimiters(node: Node): void {
+  if (isText(node)) {
+    node.data = node.data.replace(REFERENCE_DELIMITERS, '')
+    return
+  }
+  if (isTag(node)) {
+    for (const [key, value] of Object.entries(node.attribs)) {
+      node.attribs[key] = value.replace(REFERENCE_DELIMITERS, '')
+    }
+  }
+  if (hasChildren(node)) {
+    for (const child of getChildren(node)) stripReferenceDelimiters(child)
+  }
+}
+
+/** Scheme and www. prefix, ignored when comparing link text to its URL */
+const URL_PREFIX_PATTERN = /^(?:[a-z][a-z0-9+.-]*:\/\/(?:www\.)?|mailto:|tel:|www\.)/i
+
+/**
+ * Whether a link adds nothing over its text: a fragment-only link, or
+ * text that is the URL itself (ignoring scheme, www. and a trailing slash)
+ */
+function isTrivialLink(text: string, href: string): boolean {
+  const url = href.trim()
+  if (url.startsWith('#')) return true
+  const normalize = (value: string) => value.trim().replace(URL_PREFIX_PATTERN, '').replace(/\/$/, '').toLowerCase()
+  return url !== '' && normalize(text) === normalize(url)
+}
+
+/**
+ * Number reference-style links in order of first use and append the
+ * deduplicated `[n]: url` table
+ */
+function numberReferenceLinks(text: string): string {
+  const numbers = new Map<string, number>()
+  const result = text.replace(REFERENCE_PATTERN, (_, url: string) => {
+    if (!numbers.has(url)) numbers.set(url, numbers.size + 1)
+    return String(numbers.get(url))
+  })
+  if (numbers.size === 0) return result
+  const table = [...numbers].map(([url, n]) => '[' + n + ']: ' + url)
+  return result.trimEnd() + '\n\n' + table.join('\n')
+}
+
+// ─── Markdown code blocks ───────────────────────────────────────────────────
+
+/** Language of each <pre> block, detected before processNode strips class/data attributes */
+const codeLanguages = new WeakMap<Element, string>()
+
+/**
+ * Detect a code language from class="language-x" / "lang-x" or data-language
+ * on the element itself, falling back to its direct <code> child
+ */
+function detectCodeLanguage(el: Element): string | null {
+  const candidates = [el, ...getChildren(el).filter((c): c is Element => isTagNamed(c, 'code'))]
+  for (const candidate of candidates) {
+    const dataLanguage = (candidate.attribs['data-language'] || candidate.attribs['data-lang'] || '').trim()
+    if (/^[\w+#.-]+$/.test(dataLanguage)) return dataLanguage.toLowerCase()
+    for (const cls of (candidate.attribs.class || '').split(/\s+/)) {
+      const match = /^(?:language|lang)-([\w+#.-]+)$/.exec(cls)
+      if (match) return match[1].toLowerCase()
+    }
+  }
+  return null
+}
+
+/**
+ * Build a backtick fence longer than any backtick run inside the code
+ */
+function codeFence(code: string): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length))
+  return '`'.repeat(Math.max(3, longestRun + 1))
+}
+
+function isInsidePre(node: Node): boolean {
+  for (let parent = node.parentNode; parent; parent = parent.parentNode) {
+    if (isTag(parent) && parent.tagName.toLowerCase() === 'pre') return true
+  }
+  return false
+}
+
 /**
  * Rewrite HTML tags to markdown syntax (bottom-up DOM pass)
  */
-function markdownRewrite(node: Node): void {
+function markdownRewrite(node: Node, options: WwwaxeOptions): void {
   if (!hasChildren(node) && !isTag(node)) return
 
+  // Decide on table conversion before cell contents are rewritten to text
+  const convertTable = isTagNamed(node, 'table') && options.markdownTables !== false && isSimpleTable(node)
+
   // Process children first (bottom-up) so nested rewrites work
   if (hasChildren(node)) {
     const children = [...getChildren(node)]
     for (const child of children) {
-      markdownRewrite(child)
+      markdownRewrite(child, options)
     }
   }
 
@@ -840,7 +2899,6 @@ function markdownRewrite(node: Node): void {
   const el = node as Element
   const tag = el.tagName.toLowerCase()
   const BACKTICK = String.fromCharCode(96)
-  const TRIPLE_BACKTICK = BACKTICK + BACKTICK + BACKTICK
 
   switch (tag) {
     case 'strong':
@@ -865,7 +2923,13 @@ function markdownRewrite(node: Node): void {
     case 'a': {
       const href = el.attribs.href || ''
       const text = getMdTextContent(el)
-      replaceWithText(el, '[' + text + '](' + href + ')')
+      if (options.linkStyle === 'none' || (options.dropTrivialLinks && isTrivialLink(text, href))) {
+        replaceWithText(el, text)
+      } else if (options.linkStyle === 'reference') {
+        replaceWithText(el, '[' + text + '][' + REFERENCE_START + href + REFERENCE_END + ']')
+      } else {
+        replaceWithText(el, '[' + text + '](' + href + ')')
+      }
       break
     }
     case 'img': {
@@ -902,7 +2966,11 @@ function markdownRewrite(node: Node): void {
       } else {
         text = getMdTextContent(el)
       }
-      replaceWithText(el, '\n' + TRIPLE_BACKTICK + '\n' + text + '\n' + TRIPLE_BACKTICK + '\n')
+      // Browsers drop a newline right after <pre>; trailing whitespace is never meaningful
+      text = text.replace(/^\r?\n/, '').trimEnd()
+      const fence = codeFence(text)
+      const language = codeLanguages.get(el) || ''
+      replaceWithText(el, '\n' + fence + language + '\n' + text + '\n' + fence + '\n')
       break
     }
     case 'h1':
@@ -921,19 +2989,15 @@ function markdownRewrite(node: Node): void {
       const text = getMdTextContent(el).trim()
       const lines = text.split('\n')
       const quoted = lines.map((line: string) => '> ' + line).join('\n')
-      replaceWithText(el, quoted)
-      break
-    }
-    case 'ul': {
-      const items = getChildren(el).filter((c: Node) => isTag(c) && (c as Element).tagName.toLowerCase() === 'li')
-      const lines = items.map((item: Node) => '- ' + getMdTextContent(item).trim())
-      replaceWithText(el, lines.join('\n') + '\n')
+      // Inside a list item, the quote starts on its own line
+      replaceWithText(el, el.parentNode && isTagNamed(el.parentNode, 'li') ? '\n' + quoted + '\n' : quoted)
       break
     }
+    case 'ul':
     case 'ol': {
-      const items = getChildren(el).filter((c: Node) => isTag(c) && (c as Element).tagName.toLowerCase() === 'li')
-      const lines = items.map((item: Node, i: number) => (i + 1) + '. ' + getMdTextContent(item).trim())
-      replaceWithText(el, lines.join('\n') + '\n')
+      // Nested lists are rendered by their outermost list, with indentation
+      if (isNestedList(el)) break
+      replaceWithText(el, renderList(el).join('\n') + '\n')
       break
     }
     case 'hr': {
@@ -944,11 +3008,31 @@ function markdownRewrite(node: Node): void {
       replaceWithText(el, '\n')
       break
     }
+    case 'table': {
+      if (convertTable) {
+        replaceWithText(el, tableToMarkdown(el))
+      }
+      break
+    }
+    case 'dl': {
+      if (options.markdownDefinitionLists !== false) {
+        replaceWithText(el, renderDefinitionList(el))
+      }
+      break
+    }
+    case 'details': {
+      if (options.markdownDetails !== false) rewriteDetails(el)
+      break
+    }
+    case 'figure': {
+      if (options.markdownFigures !== false) rewriteFigure(el)
+      break
+    }
   }
 }
 
 /**
- * Collapse excessive whitespace in text nodes
+ * Collapse excessive whitespace in text nodes (except inside <pre>)
  */
 function collapseWhitespace(node: Node): void {
   if (isText(node)) {
@@ -956,6 +3040,7 @@ function collapseWhitespace(node: Node): void {
     node.data = node.data.replace(/[\t\n\r]+/g, ' ').replace(/ {2,}/g, ' ')
     return
   }
+  if (isTag(node) && node.tagName.toLowerCase() === 'pre') return
   if (hasChildren(node)) {
     for (const child of getChildren(node)) {
       collapseWhitespace(child)
@@ -972,7 +3057,7 @@ function cleanTextNodes(node: Node): void {
   const children = [...getChildren(node)]
   for (const child of children) {
     if (isText(child)) {
-      if (child.data.trim().length === 0 && child.data.length > 1) {
+      if (child.data.trim().length === 0 && child.data.length > 1 && !isInsidePre(child)) {
         // Replace large whitespace-only nodes with single space
         child.data = ' '
       }
@@ -982,74 +3067,1623 @@ function cleanTextNodes(node: Node): void {
   }
 }
 
+// ─── Blocks ─────────────────────────────────────────────────────────────────
+
+/** Tags treated as indivisible blocks when trimming or chunking the document */
+const BLOCK_TAGS = new Set([
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'ul', 'ol', 'menu', 'dl', 'table',
+  'pre', 'blockquote', 'figure', 'img', 'picture', 'video', 'audio', 'form',
+  'details', 'hr', 'address',
+])
+
+type BlockKind = 'heading' | 'list' | 'table' | 'image' | 'block'
+
+interface Block {
+  node: ChildNode
+  kind: BlockKind
+  /** Index of the heading-delimited section the block belongs to (0 = before the first heading) */
+  section: number
+}
+
+function blockKind(node: ChildNode): BlockKind {
+  if (!isTag(node)) return 'block'
+  const tag = node.tagName.toLowerCase()
+  if (/^h[1-6]$/.test(tag)) return 'heading'
+  if (tag === 'ul' || tag === 'ol' || tag === 'menu') return 'list'
+  if (tag === 'table') return 'table'
+  if (tag === 'img' || tag === 'picture') return 'image'
+  if (tag === 'figure' && findElement(node, 'img')) return 'image'
+  return 'block'
+}
+
 /**
- * wwwaxe - Strip non-content data from HTML
- *
- * Takes raw HTML and returns condensed HTML retaining meaningful structure
- * and content while stripping scripts, styles, and presentational attributes.
+ * Collect the blocks of the document in order. A block is a BLOCK_TAGS
+ * element, or an outermost inline run / text node outside any such element.
  */
-export function wwwaxe(html: string, options: WwwaxeOptions = {}): string {
-  const markdown = options.markdown !== false
-  const unwrapTags = getUnwrapTags(options)
+function collectBlocks(doc: Document): Block[] {
+  const blocks: Block[] = []
+  let section = 0
 
-  // 1. Parse HTML
-  const doc = parseDocument(html, {
-    decodeEntities: true,
-  })
+  const containsBlock = (node: Node): boolean =>
+    findElements(node, (el) => BLOCK_TAGS.has(el.tagName.toLowerCase())).length > 0
 
-  // 2. Extract frontmatter from <head> (before processNode strips attributes)
-  const frontmatterData = extractFrontmatter(doc)
+  const walk = (node: Node): void => {
+    if (!hasChildren(node)) return
+    for (const child of getChildren(node)) {
+      if (isTag(child) && !BLOCK_TAGS.has(child.tagName.toLowerCase()) && containsBlock(child)) {
+        walk(child)
+        continue
+      }
+      if (!hasMeaningfulContent(child)) continue
+      const kind = blockKind(child)
+      if (kind === 'heading') section++
+      blocks.push({ node: child, kind, section })
+    }
+  }
+  walk(doc)
+  return blocks
+}
 
-  // 2.5. Reassemble RSC streaming payloads (before processNode strips hidden elements and templates)
-  reassembleRSCPayloads(doc)
+/**
+ * Serialize a single block on its own, leaving the document untouched
+ */
+function serializeBlock(node: ChildNode, options: WwwaxeOptions): string {
+  const clone = node.cloneNode(true)
+  const fragment = new Document([clone])
+  clone.parent = fragment
+  return serialize(fragment, options)
+}
 
-  // 3. Process all top-level nodes (existing cleanup)
-  const children = [...getChildren(doc)]
-  for (const child of children) {
-    processNode(child, options, unwrapTags)
-  }
+// ─── Accessibility tree ─────────────────────────────────────────────────────
 
-  // 4. Remove document wrappers (html, head, body)
-  removeDocumentWrappers(doc)
+/** Elements left out of the accessibility tree and plain text output */
+const UNRENDERED_TAGS = new Set(['head', 'title', 'meta', 'link', 'base', 'script', 'style', 'template', 'noscript', 'source', 'track'])
 
-  // 5. If core: true, strip chrome
-  if (options.core) {
-    stripChrome(doc)
-  }
+/** Elements whose text runs on with the surrounding text (when they have no role) */
+const INLINE_TEXT_TAGS = new Set([
+  'span', 'strong', 'b', 'em', 'i', 'u', 's', 'del', 'ins', 'mark', 'small', 'sub', 'sup', 'code', 'kbd', 'samp', 'var',
+  'abbr', 'cite', 'q', 'dfn', 'time', 'data', 'bdi', 'bdo', 'label', 'font',
+])
 
-  // 6. Collapse whitespace
-  collapseWhitespace(doc)
+/** Implicit ARIA roles of elements whose role doesn't depend on their attributes or context */
+const IMPLICIT_ROLES: Record<string, string> = {
+  article: 'article', aside: 'complementary', blockquote: 'blockquote', button: 'button', dd: 'definition',
+  details: 'group', dialog: 'dialog', dt: 'term', fieldset: 'group', figure: 'figure', form: 'form', hr: 'separator',
+  li: 'listitem', main: 'main', menu: 'list', meter: 'meter', nav: 'navigation', ol: 'list', optgroup: 'group',
+  option: 'option', output: 'status', p: 'paragraph', progress: 'progressbar', search: 'search', table: 'table',
+  td: 'cell', textarea: 'textbox', tr: 'row', ul: 'list',
+}
 
-  // 7. Clean text nodes
-  cleanTextNodes(doc)
+/** Roles of <input> types (other types are text fields) */
+const INPUT_ROLES: Record<string, string> = {
+  search: 'searchbox', checkbox: 'checkbox', radio: 'radio', range: 'slider', number: 'spinbutton',
+  submit: 'button', reset: 'button', button: 'button', image: 'button',
+}
 
-  // 8. Markdown rewrite (if enabled)
-  if (markdown) {
-    markdownRewrite(doc)
+/** Roles named by their content */
+const NAME_FROM_CONTENT_ROLES = new Set([
+  'link', 'button', 'heading', 'option', 'cell', 'columnheader', 'rowheader', 'tab', 'menuitem', 'term', 'treeitem',
+])
+
+/** Roles whose descendants are not part of the tree */
+const A11Y_LEAF_ROLES = new Set(['textbox', 'searchbox', 'checkbox', 'radio', 'slider', 'spinbutton', 'img', 'separator', 'progressbar', 'meter'])
+
+/** Child element naming a group-like element (left out of its children) */
+const NAME_FROM_CHILD: Record<string, string> = {
+  fieldset: 'legend', figure: 'figcaption', table: 'caption', details: 'summary',
+}
+
+/** A node of the accessibility tree */
+interface A11yNode {
+  role: string
+  name: string
+  /** Properties (level=2, checked, …), then the link URL and element reference */
+  props: string[]
+  children: A11yItem[]
+  /** Current value of a control, shown after a colon */
+  value?: string
+}
+
+/** A tree node, a run of text, or a block boundary (null) between text runs */
+type A11yItem = A11yNode | string | null
+
+/** The ` [#n]` marker inserted after an element by elementRefs */
+const REF_MARKER_PATTERN = /^ \[#\d+\]$/
+
+/**
+ * Whether a node is an element reference marker (shown on its element's line instead)
+ */
+function isRefMarker(node: Node): boolean {
+  return isText(node) && REF_MARKER_PATTERN.test(node.data) && !!node.prev && isTag(node.prev)
+}
+
+/**
+ * Remove the element reference markers of controls inside a label
+ */
+function withoutRefMarkers(text: string): string {
+  return text.replace(/ ?\[#\d+\]/g, '').trim()
+}
+
+/**
+ * Role of an element: its role attribute, else its implicit role.
+ * Returns null for generic elements (and role="presentation" / "none").
+ */
+function a11yRole(el: Element): string | null {
+  const explicit = (el.attribs.role || '').trim().toLowerCase().split(/\s+/)[0]
+  if (explicit === 'presentation' || explicit === 'none') return null
+  if (explicit) return explicit
+
+  const tag = el.tagName.toLowerCase()
+  if (IMPLICIT_ROLES[tag]) return IMPLICIT_ROLES[tag]
+  if (/^h[1-6]$/.test(tag)) return 'heading'
+  switch (tag) {
+    case 'a':
+    case 'area':
+      return el.attribs.href !== undefined ? 'link' : null
+    case 'img':
+      return el.attribs.alt === '' ? null : 'img'
+    case 'input':
+      return INPUT_ROLES[(el.attribs.type || '').toLowerCase()] || 'textbox'
+    case 'select':
+      return el.attribs.multiple !== undefined || Number(el.attribs.size) > 1 ? 'listbox' : 'combobox'
+    case 'th':
+      return el.attribs.scope === 'row' ? 'rowheader' : 'columnheader'
+    case 'section':
+      return el.attribs['aria-label'] || el.attribs['aria-labelledby'] ? 'region' : null
+    case 'header':
+    case 'footer': {
+      // Landmarks only outside sectioning content
+      for (let parent = el.parentNode; parent && isTag(parent); parent = parent.parentNode) {
+        if (['article', 'aside', 'main', 'nav', 'section'].includes(parent.tagName.toLowerCase())) return null
+      }
+      return tag === 'header' ? 'banner' : 'contentinfo'
+    }
   }
+  return null
+}
 
-  // 9. Serialize
-  let result = render(doc, {
-    encodeEntities: 'utf8',
-    selfClosingTags: true,
-  })
+/**
+ * Text of a node as it names a link or button: text plus image alt text,
+ * without element reference markers
+ */
+function a11yContentText(node: Node): string {
+  const collect = (n: Node): string => {
+    if (isText(n)) return isRefMarker(n) ? '' : n.data
+    if (!isTag(n)) return ''
+    if (n.tagName.toLowerCase() === 'img') return ' ' + (n.attribs.alt || '') + ' '
+    return getChildren(n).map(collect).join('')
+  }
+  return collect(node).replace(/\s+/g, ' ').trim()
+}
 
-  // 10. Fix markdown blockquote encoding (dom-serializer encodes > in text nodes)
-  if (markdown) {
-    result = result.replace(/&gt; /g, '> ')
+/**
+ * Accessible name of an element: aria-labelledby, aria-label, the field label,
+ * alt text or naming child, its content (for links, buttons, headings, …), then title.
+ * Also returns the naming child, which is left out of the element's children.
+ */
+function a11yName(doc: Document, el: Element, role: string): { name: string, source?: Element } {
+  const labelledBy = (el.attribs['aria-labelledby'] || '').split(/\s+/)
+    .map(ref => ref ? findById(doc, ref) : null)
+    .filter((label): label is Element => label !== null)
+    .map(labelText)
+    .join(' ')
+  if (labelledBy.trim()) return { name: withoutRefMarkers(labelledBy) }
+
+  const ariaLabel = (el.attribs['aria-label'] || '').trim()
+  if (ariaLabel) return { name: ariaLabel }
+
+  const tag = el.tagName.toLowerCase()
+  if (tag === 'input' && role === 'button') {
+    const type = (el.attribs.type || '').toLowerCase()
+    const fallback = type === 'reset' ? 'Reset' : type === 'button' ? '' : 'Submit'
+    return { name: (el.attribs.value || (type === 'image' ? el.attribs.alt : '') || fallback).trim() }
+  }
+  if (FORM_FIELD_TAGS.has(tag) && tag !== 'button') {
+    const label = withoutRefMarkers(resolveFieldLabel(doc, el))
+    if (label) return { name: label }
+  } else if (tag === 'img') {
+    return { name: (el.attribs.alt || el.attribs.title || '').trim() }
   }
 
-  // 11. Strip DOCTYPE
-  result = result.replace(/<!DOCTYPE[^>]*>/gi, '')
+  const childTag = NAME_FROM_CHILD[tag]
+  const source = childTag
+    ? getChildren(el).find((child): child is Element => isTag(child) && child.tagName.toLowerCase() === childTag)
+    : undefined
+  if (source) return { name: a11yContentText(source), source }
 
-  // 12. Collapse multiple blank lines, trim
-  result = result.replace(/\n{3,}/g, '\n').trim()
+  if (NAME_FROM_CONTENT_ROLES.has(role)) {
+    const text = a11yContentText(el)
+    if (text) return { name: text }
+  }
+  return { name: (el.attribs.title || '').trim() }
+}
 
-  // 13. Prepend frontmatter
-  const frontmatter = buildFrontmatter(frontmatterData)
-  if (frontmatter) {
-    result = frontmatter + '\n' + result
+/**
+ * State properties of an element (heading level, checked, selected, …)
+ */
+function a11yProps(el: Element, role: string): string[] {
+  const props: string[] = []
+  const tag = el.tagName.toLowerCase()
+  if (role === 'heading') props.push('level=' + (/^h[1-6]$/.test(tag) ? tag[1] : '2'))
+  if (role === 'checkbox' || role === 'radio' || role === 'switch') {
+    props.push(el.attribs.checked !== undefined ? 'checked' : 'unchecked')
+  }
+  if (role === 'option' && el.attribs.selected !== undefined) props.push('selected')
+  for (const state of ['required', 'disabled', 'readonly']) {
+    if (el.attribs[state] !== undefined) props.push(state)
+  }
+  return props
+}
+
+/**
+ * Build the accessibility tree items of a node. Generic elements are
+ * transparent: their children take their place, separated from the
+ * surrounding text unless the element is inline.
+ */
+function collectA11yItems(doc: Document, node: Node): A11yItem[] {
+  if (isText(node)) return isRefMarker(node) ? [] : [node.data]
+  if (!isTag(node)) {
+    return hasChildren(node) ? getChildren(node).flatMap(child => collectA11yItems(doc, child)) : []
   }
 
-  return result
+  const el = node
+  const tag = el.tagName.toLowerCase()
+  if (UNRENDERED_TAGS.has(tag)) return []
+  if (tag === 'input' && (el.attribs.type || '').toLowerCase() === 'hidden') return []
+
+  const role = a11yRole(el)
+  if (!role) {
+    if (tag === 'img') return []
+    const items = getChildren(el).flatMap(child => collectA11yItems(doc, child))
+    return INLINE_TEXT_TAGS.has(tag) ? items : [null, ...items, null]
+  }
+
+  const { name, source } = a11yName(doc, el, role)
+  const props = a11yProps(el, role)
+  if (role === 'link' && el.attribs.href) props.push(el.attribs.href)
+  if (el.next && isText(el.next) && isRefMarker(el.next)) props.push(el.next.data.trim())
+
+  const a11yNode: A11yNode = { role, name, props, children: [] }
+  if (role === 'textbox' || role === 'searchbox' || role === 'spinbutton' || role === 'slider') {
+    const value = tag === 'textarea' ? textContent(el).replace(/\s+/g, ' ').trim() : (el.attribs.value || '').trim()
+    if (value) a11yNode.value = value
+  }
+  if (!A11Y_LEAF_ROLES.has(role)) {
+    const children = getChildren(el).filter(child => child !== source).flatMap(child => collectA11yItems(doc, child))
+    // Content-named elements list their children only when they hold more than text
+    if (!NAME_FROM_CONTENT_ROLES.has(role) || !name || children.some(child => child !== null && typeof child !== 'string')) {
+      a11yNode.children = children
+    }
+  }
+  return [a11yNode]
+}
+
+/**
+ * Render accessibility tree items as indented lines, merging adjacent text
+ */
+function renderA11yItems(items: A11yItem[], depth: number): string[] {
+  const indent = '  '.repeat(depth)
+  const lines: string[] = []
+  let text = ''
+  const flushText = () => {
+    const normalized = text.replace(/\s+/g, ' ').trim()
+    if (normalized) lines.push(indent + 'text: ' + normalized)
+    text = ''
+  }
+
+  for (const item of items) {
+    if (typeof item === 'string') {
+      text += item
+      continue
+    }
+    flushText()
+    if (item === null) continue
+
+    let line = indent + item.role
+    if (item.name) line += ' ' + JSON.stringify(item.name)
+    if (item.props.length > 0) line += ' ' + item.props.join(' ')
+
+    const childLines = renderA11yItems(item.children, depth + 1)
+    const onlyText = childLines.length === 1 && childLines[0].startsWith(indent + '  text: ')
+    if (item.value !== undefined) {
+      lines.push(line + ': ' + item.value, ...childLines)
+    } else if (onlyText && !item.name) {
+      // A lone text child goes on the element's line
+      lines.push(line + ': ' + childLines[0].slice(indent.length + '  text: '.length))
+    } else {
+      lines.push(line, ...childLines)
+    }
+  }
+  flushText()
+  return lines
+}
+
+/**
+ * Turn names that point at ids (aria-labelledby, label for) into aria-label,
+ * so the accessibility tree keeps them once processNode strips the ids.
+ * Must be called BEFORE processNode.
+ */
+function resolveA11yLabels(doc: Document): void {
+  for (const el of findElements(doc, (e) => e.attribs['aria-labelledby'] !== undefined || e.attribs.id !== undefined)) {
+    if (el.attribs['aria-labelledby'] !== undefined) {
+      const labelledBy = el.attribs['aria-labelledby'].split(/\s+/)
+        .map(ref => ref ? findById(doc, ref) : null)
+        .filter((label): label is Element => label !== null)
+        .map(labelText)
+        .join(' ')
+        .trim()
+      if (labelledBy) el.attribs['aria-label'] = labelledBy
+      continue
+    }
+    const tag = el.tagName.toLowerCase()
+    if (!FORM_FIELD_TAGS.has(tag) || tag === 'button' || (el.attribs['aria-label'] || '').trim()) continue
+    const forLabel = labelForText(doc, el)
+    if (forLabel) el.attribs['aria-label'] = forLabel
+  }
+}
+
+/**
+ * Render a processed document as an indented role / name tree, in the style of
+ * browser accessibility snapshots: `heading "Pricing" level=2`, `link "Docs" /docs`
+ */
+function renderAccessibilityTree(doc: Document): string {
+  return renderA11yItems(collectA11yItems(doc, doc), 0).join('\n')
+}
+
+// ─── Plain text ─────────────────────────────────────────────────────────────
+
+/** Form controls left out of plain text output (their values aren't page text) */
+const TEXT_SKIP_TAGS = new Set(['input', 'select', 'textarea', 'datalist', 'img', 'picture', 'video', 'audio', 'iframe'])
+
+/** Elements rendered as lines; any block inside them (a nested list, a paragraph) only breaks the line */
+const TEXT_LINE_TAGS = new Set(['li', 'dt', 'dd'])
+
+/**
+ * Tab-separated rows of a table (without the rows of nested tables)
+ */
+function tableText(table: Element): string[] {
+  const closestTable = (el: Element) => {
+    let parent = el.parentNode
+    while (parent && isTag(parent) && parent.tagName.toLowerCase() !== 'table') parent = parent.parentNode
+    return parent
+  }
+  const rows = findElements(table, (el) => el.tagName.toLowerCase() === 'tr' && closestTable(el) === table)
+  return rows
+    .map(row => getChildren(row)
+      .filter((cell): cell is Element => isTag(cell) && ['td', 'th'].includes(cell.tagName.toLowerCase()))
+      .map(cell => textContent(cell).replace(/\s+/g, ' ').trim())
+      .join('\t'))
+    .filter(row => row.trim() !== '')
+}
+
+/**
+ * Render a processed document as plain text: blocks become paragraphs,
+ * list items and table rows become lines (cells tab-separated), and
+ * links and images leave only their text
+ */
+function renderPlainText(doc: Document): string {
+  const blocks: string[] = []
+  let lines: string[] = []
+  let line = ''
+
+  const endLine = () => {
+    const text = line.replace(/\s+/g, ' ').trim()
+    if (text) lines.push(text)
+    line = ''
+  }
+  const endBlock = () => {
+    endLine()
+    if (lines.length > 0) blocks.push(lines.join('\n'))
+    lines = []
+  }
+
+  const walk = (node: Node, inItem: boolean) => {
+    if (isText(node)) {
+      line += node.data
+      return
+    }
+    if (!isTag(node)) {
+      if (hasChildren(node)) for (const child of getChildren(node)) walk(child, inItem)
+      return
+    }
+
+    const tag = node.tagName.toLowerCase()
+    if (UNRENDERED_TAGS.has(tag) || TEXT_SKIP_TAGS.has(tag)) return
+    if (tag === 'br') {
+      endLine()
+      return
+    }
+    if (tag === 'pre' || tag === 'table') {
+      const text = tag === 'pre'
+        ? textContent(node).replace(/^\r?\n/, '').trimEnd()
+        : tableText(node).join('\n')
+      if (inItem) {
+        endLine()
+        if (text.trim()) lines.push(text)
+      } else {
+        endBlock()
+        if (text.trim()) blocks.push(text)
+      }
+      return
+    }
+
+    // Buttons sit side by side without whitespace between them
+    if (tag === 'button') line += ' '
+    const inline = INLINE_TEXT_TAGS.has(tag) || tag === 'a' || tag === 'button'
+    const childInItem = inItem || TEXT_LINE_TAGS.has(tag)
+    const end = inline ? null : childInItem ? endLine : endBlock
+    end?.()
+    for (const child of getChildren(node)) walk(child, childInItem)
+    if (tag === 'button') line += ' '
+    end?.()
+  }
+
+  walk(doc, false)
+  endBlock()
+  return blocks.join('\n\n')
+}
+
+// ─── Token budget ───────────────────────────────────────────────────────────
+
+/** Lists with at least this many items count as "long" and are dropped early */
+const LONG_LIST_MIN_ITEMS = 5
+
+/**
+ * Default token estimator: roughly 4 characters per token
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Build a function giving the share of the budget a piece of output uses (fits when <= 1).
+ * Returns null when no budget is configured.
+ */
+function getBudgetRatio(options: WwwaxeOptions): ((text: string) => number) | null {
+  const { maxTokens, maxChars } = options
+  if (maxTokens === undefined && maxChars === undefined) return null
+  const estimator = options.tokenEstimator || estimateTokens
+  return (text: string) => Math.max(
+    maxTokens !== undefined ? estimator(text) / Math.max(maxTokens, 1) : 0,
+    maxChars !== undefined ? text.length / Math.max(maxChars, 1) : 0,
+  )
+}
+
+/**
+ * Remove a node, then any ancestors left without meaningful content
+ */
+function removeAndPrune(node: ChildNode): void {
+  let parent = node.parentNode
+  removeElement(node)
+  while (parent && isTag(parent) && !hasMeaningfulContent(parent)) {
+    const next: ParentNode | null = parent.parentNode
+    removeElement(parent)
+    parent = next
+  }
+}
+
+/**
+ * Trim the processed document until its rendered output fits the budget.
+ *
+ * Whole blocks are dropped in priority order: trailing sections, then long
+ * lists, tables and images (largest first), and finally the remaining blocks
+ * of the leading section from the end. Frontmatter and the leading headings
+ * always stay. Omitted content is replaced by a `[… omitted]` marker.
+ *
+ * `measure` returns the budget share of the full rendered output and
+ * `unitCost` the share of a single block, both where <= 1 fits.
+ * Returns the number of blocks dropped.
+ */
+function applyBudget(doc: Document, measure: (d: Document) => number, unitCost: (node: ChildNode) => number): number {
+  let total = measure(doc)
+  if (total <= 1) return 0
+
+  const blocks = collectBlocks(doc)
+
+  // The lead runs through the first heading's section, plus any headings directly after it
+  const firstHeading = blocks.find(u => u.kind === 'heading')
+  let leadSection = firstHeading ? firstHeading.section : Infinity
+  while (blocks.some(u => u.section === leadSection + 1) &&
+    blocks.filter(u => u.section === leadSection + 1).every(u => u.kind === 'heading')) {
+    leadSection++
+  }
+
+  const costs = new Map<ChildNode, number>()
+  const cost = (node: ChildNode): number => {
+    if (!costs.has(node)) costs.set(node, unitCost(node))
+    return costs.get(node)!
+  }
+  /** Marker text standing in for each dropped block */
+  const markers = new Map<ChildNode, Text>()
+  let tailMarker: Text | null = null
+  let droppedCount = 0
+
+  /** Drop a group of blocks behind one marker; returns true once the document fits */
+  const drop = (group: ChildNode[], label: string, trailing: boolean): boolean => {
+    // Folding markers together has no estimated cost, so always re-measure then
+    const estimated = group.every(node => cost(node) > 0)
+    for (const node of group) {
+      total -= cost(node)
+      if (!(node instanceof Text && costs.get(node) === 0)) droppedCount++
+    }
+    const [first, ...rest] = group
+    for (const node of rest) removeAndPrune(node)
+    const marker = replaceWithText(first, '\n[… ' + label + ' omitted]\n')
+    if (marker) {
+      costs.set(marker, 0)
+      for (const node of group) markers.set(node, marker)
+    }
+    if (trailing) {
+      // Consecutive trailing drops share a single marker at the earliest position
+      if (tailMarker && tailMarker !== marker) removeAndPrune(tailMarker)
+      tailMarker = marker
+    }
+
+    if (estimated && total > 1) return false
+    // Estimate says it fits — verify against the real output
+    total = measure(doc)
+    return total <= 1
+  }
+
+  // 1. Trailing sections, last first
+  const sections = new Map<number, ChildNode[]>()
+  for (const block of blocks) {
+    if (block.section <= leadSection) continue
+    if (!sections.has(block.section)) sections.set(block.section, [])
+    sections.get(block.section)!.push(block.node)
+  }
+  for (const section of [...sections.keys()].reverse()) {
+    if (drop(sections.get(section)!, 'content', true)) return droppedCount
+  }
+
+  // 2–4. Long lists, then tables, then images, largest first
+  const lead = blocks.filter(u => u.section <= leadSection)
+  const isLongList = (u: Block) =>
+    isTag(u.node) && getChildren(u.node).filter(c => isTagNamed(c, 'li')).length >= LONG_LIST_MIN_ITEMS
+  const phases: [BlockKind, (u: Block) => boolean][] = [
+    ['list', isLongList],
+    ['table', () => true],
+    ['image', () => true],
+  ]
+  for (const [kind, predicate] of phases) {
+    const candidates = lead
+      .filter(u => u.kind === kind && predicate(u))
+      .sort((a, b) => cost(b.node) - cost(a.node))
+    for (const block of candidates) {
+      if (drop([block.node], kind, false)) return droppedCount
+    }
+  }
+
+  // 5. Remaining blocks of the leading section, last first, keeping headings.
+  // Markers of blocks dropped above fold into the trailing marker.
+  const rest = lead.filter(u => u.kind !== 'heading').reverse()
+  for (const block of rest) {
+    const node = markers.get(block.node) || block.node
+    if (node === tailMarker) continue
+    if (drop([node], 'content', true)) return droppedCount
+  }
+  return droppedCount
+}
+
+// ─── Chunking ───────────────────────────────────────────────────────────────
+
+export interface ChunkOptions extends WwwaxeOptions {
+  /** Preferred chunk size in characters; blocks are packed until a chunk reaches it (default: 1000) */
+  targetChunkSize?: number
+  /** Chunk size in characters that packing never exceeds, unless a single block does (default: 2000) */
+  maxChunkSize?: number
+}
+
+export interface Chunk {
+  /** Serialized chunk content (markdown or HTML, per options) */
+  content: string
+  /** Heading breadcrumb, outermost first; empty before the first heading */
+  headings: string[]
+  /** id of the nearest element carrying one, for linking back with #id */
+  id?: string
+  /** Frontmatter of the page the chunk came from */
+  frontmatter: FrontmatterData
+}
+
+interface ChunkSection {
+  /** The heading that opens the section (null for content before the first heading) */
+  heading: Element | null
+  headings: string[]
+  blocks: ChildNode[]
+}
+
+interface ChunkPiece {
+  /** Node in the processed document the piece came from (for id lookup) */
+  node: ChildNode
+  text: string
+}
+
+/**
+ * Group the document's blocks into heading-delimited sections with their breadcrumb
+ */
+function collectSections(doc: Document): ChunkSection[] {
+  const sections: ChunkSection[] = []
+  const stack: { level: number, text: string }[] = []
+  let current: ChunkSection = { heading: null, headings: [], blocks: [] }
+
+  for (const block of collectBlocks(doc)) {
+    if (block.kind === 'heading') {
+      if (current.blocks.length > 0) sections.push(current)
+      const heading = block.node as Element
+      const level = parseInt(heading.tagName[1])
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop()
+      stack.push({ level, text: textContent(heading).replace(/\s+/g, ' ').trim() })
+      current = { heading, headings: stack.map(h => h.text), blocks: [] }
+    }
+    current.blocks.push(block.node)
+  }
+  if (current.blocks.length > 0) sections.push(current)
+  return sections
+}
+
+/**
+ * Serialize a block, splitting an oversized list into runs of items
+ */
+function splitBlock(node: ChildNode, options: WwwaxeOptions, targetSize: number, maxSize: number): ChunkPiece[] {
+  const text = serializeBlock(node, options)
+  if (text.length <= maxSize || blockKind(node) !== 'list') return [{ node, text }]
+
+  const list = node as Element
+  const items = getChildren(list).filter((c): c is Element => isTagNamed(c, 'li'))
+  const start = parseInt(list.attribs.start || '1') || 1
+  const pieces: ChunkPiece[] = []
+  let run: Element[] = []
+  let runStart = 0
+
+  const flushRun = () => {
+    if (run.length === 0) return
+    const partial = new Element(list.tagName, { ...list.attribs })
+    if (list.tagName.toLowerCase() === 'ol') partial.attribs.start = String(start + runStart)
+    for (const item of run) {
+      const clone = item.cloneNode(true)
+      clone.parent = partial
+      partial.children.push(clone)
+    }
+    pieces.push({ node: run[0], text: serializeBlock(partial, options) })
+    runStart += run.length
+    run = []
+  }
+
+  let size = 0
+  for (const item of items) {
+    const itemSize = serializeBlock(item, options).length
+    if (run.length > 0 && size + itemSize > targetSize) flushRun()
+    if (run.length === 0) size = 0
+    run.push(item)
+    size += itemSize
+  }
+  flushRun()
+  return pieces
+}
+
+/**
+ * Find the id for a chunk: the first block's own id, then the section
+ * heading's id, then the nearest ancestor id of the first block.
+ */
+function findChunkId(node: ChildNode, heading: Element | null): string | undefined {
+  if (isTag(node) && node.attribs.id) return node.attribs.id
+  if (heading && heading.attribs.id) return heading.attribs.id
+  let parent = node.parentNode
+  while (parent && isTag(parent)) {
+    if (parent.attribs.id) return parent.attribs.id
+    parent = parent.parentNode
+  }
+  return undefined
+}
+
+/** dom-serializer options for the final output */
+const RENDER_OPTIONS = { encodeEntities: 'utf8', selfClosingTags: true } as const
+
+/**
+ * Serialize the processed document body: markdown rewrite and render.
+ * Mutates the document when markdown is enabled.
+ */
+function serialize(doc: Document, options: WwwaxeOptions): string {
+  if (options.output === 'a11y') return renderAccessibilityTree(doc)
+  if (options.output === 'text') return renderPlainText(doc)
+
+  const markdown = options.markdown !== false
+
+  // Markdown rewrite (if enabled)
+  if (markdown) {
+    if (options.linkStyle === 'reference') stripReferenceDelimiters(doc)
+    markdownRewrite(doc, options)
+  }
+
+  // Serialize
+  let result = render(doc, RENDER_OPTIONS)
+
+  // Fix markdown blockquote encoding (dom-serializer encodes > in text nodes)
+  if (markdown) {
+    result = result.replace(/&gt; /g, '> ')
+  }
+
+  // Number reference-style links and append the link table
+  if (markdown && options.linkStyle === 'reference') {
+    result = numberReferenceLinks(result)
+  }
+
+  // Strip DOCTYPE
+  result = result.replace(/<!DOCTYPE[^>]*>/gi, '')
+
+  // Collapse multiple blank lines (outside code blocks), trim
+  return collapseBlankLines(result, markdown).trim()
+}
+
+/**
+ * Collapse runs of blank lines, leaving fenced code blocks (markdown) or
+ * <pre> elements (HTML) untouched
+ */
+function collapseBlankLines(text: string, markdown: boolean): string {
+  const protectedBlock = markdown
+    ? /^(`{3,})[^\n]*\n[\s\S]*?\n\1$/gm
+    : /<pre[\s>][\s\S]*?<\/pre>/g
+  let result = ''
+  let last = 0
+  for (const match of text.matchAll(protectedBlock)) {
+    result += text.slice(last, match.index).replace(/\n{3,}/g, '\n') + match[0]
+    last = match.index! + match[0].length
+  }
+  return result + text.slice(last).replace(/\n{3,}/g, '\n')
+}
+
+/**
+ * Prepend the YAML frontmatter block (if any) to the serialized content
+ */
+export function withFrontmatter(frontmatterData: FrontmatterData, content: string): string {
+  const frontmatter = buildFrontmatter(frontmatterData)
+  return frontmatter ? frontmatter + '\n' + content : content
+}
+
+interface ProcessedDocument {
+  doc: Document
+  frontmatterData: FrontmatterData
+  removed: Record<RemovalReason, number>
+  coreStrategy: CoreStrategy
+  coreScore?: number
+  overlays: OverlayRemoval[]
+  refs?: Record<number, ElementRef>
+  plugins: PluginRun | null
+}
+
+/**
+ * Run the cleanup pipeline up to (not including) budget trimming and serialization
+ */
+function processDocument(html: string, options: WwwaxeOptions): ProcessedDocument {
+  const config = buildConfig(options)
+  const removed: Record<RemovalReason, number> = {
+    comment: 0, tag: 0, hidden: 0, meta: 0, empty: 0, unwrapped: 0, chrome: 0, overlay: 0, budget: 0, plugin: 0, excluded: 0, image: 0,
+  }
+  let coreStrategy: CoreStrategy = 'none'
+  let coreScore: number | undefined
+  const overlays: OverlayRemoval[] = []
+  const plugins = resolvePlugins(html, options)
+
+  // 0. Run plugin pre-parse hooks
+  if (plugins) {
+    html = runStringHooks(plugins, 'preParse', html)
+  }
+
+  // 1. Parse HTML
+  const doc = parseDocument(html, {
+    decodeEntities: true,
+  })
+
+  // 1.5. Locate interactive elements on the untouched document (before anything moves them)
+  const located = options.elementRefs ? locateInteractiveElements(doc) : null
+
+  // 1.6. Run plugin post-parse hooks (before frontmatter extraction)
+  if (plugins) {
+    runDocumentHooks(plugins, 'postParse', doc)
+  }
+
+  // 2. Extract frontmatter from <head> (before processNode strips attributes)
+  const frontmatterData = extractFrontmatter(doc)
+
+  // 2.1. Resolve the base URL so stripAttributes can absolutize kept URLs
+  const baseUrl = findBaseUrl(doc, options, frontmatterData)
+  resolveFrontmatterUrls(frontmatterData, baseUrl)
+  selectFrontmatterFields(frontmatterData, options)
+  const processOptions: WwwaxeOptions = { ...options, baseUrl }
+
+  // 2.5. Reassemble RSC streaming payloads (before processNode strips hidden elements and templates)
+  reassembleRSCPayloads(doc)
+
+  // 2.55. Extract SPA hydration payloads (before processNode removes scripts)
+  const hydrationContent = options.hydration ? extractHydrationContent(doc) : null
+
+  // 2.57. Apply include / exclude selectors (before processNode strips classes and attributes)
+  if (options.include || options.exclude) {
+    applySelectorFilters(doc, options, removed)
+  }
+
+  // 2.6. Remove cookie banners and newsletter modals in core mode (before processNode strips class and id)
+  if (options.core && options.stripOverlays !== false) {
+    removeOverlays(doc, removed, overlays)
+  }
+
+  // 2.65. Summarize forms (before processNode strips the ids labels point at)
+  if (options.forms === 'summary') {
+    summarizeForms(doc, baseUrl)
+  }
+
+  // 2.66. Resolve accessible names that point at ids (before processNode strips the ids)
+  if (options.output === 'a11y') {
+    resolveA11yLabels(doc)
+  }
+
+  // 2.7. Without a semantic content root, isolate the best-scoring container (before processNode unwraps divs)
+  const scored = options.core ? isolateScoredContent(doc, config) : null
+
+  // 3. Process all top-level nodes (existing cleanup)
+  const children = [...getChildren(doc)]
+  for (const child of children) {
+    processNode(child, processOptions, config, removed, plugins)
+  }
+
+  // 4. Remove document wrappers (html, head, body)
+  removeDocumentWrappers(doc)
+
+  // 5. If core: true, strip chrome
+  if (options.core) {
+    ;({ strategy: coreStrategy, score: coreScore } = stripChrome(doc, removed, config, scored))
+  }
+
+  // 5.5. Fall back to hydration content when the rendered DOM is (nearly) empty
+  if (hydrationContent && textContent(doc).trim().length < HYDRATION_MIN_DOM_TEXT) {
+    appendChild(doc, hydrationContent)
+    processNode(hydrationContent, processOptions, config, removed, plugins)
+  }
+
+  // 6. Collapse whitespace
+  collapseWhitespace(doc)
+
+  // 7. Clean text nodes
+  cleanTextNodes(doc)
+
+  // 7.5. Mark the interactive elements that were kept with [#n] references
+  const refs = located ? assignElementRefs(doc, located) : undefined
+
+  // 8. Run plugin pre-markdown hooks
+  if (plugins) {
+    runDocumentHooks(plugins, 'preMarkdown', doc)
+  }
+
+  return { doc, frontmatterData, removed, coreStrategy, coreScore, overlays, refs, plugins }
+}
+
+/**
+ * Trim a processed document to the budget, serialize it and assemble the result
+ */
+function finishDocument(processed: ProcessedDocument, options: WwwaxeOptions, inputLength: number): WwwaxeResult {
+  const { doc, frontmatterData, removed, coreStrategy, coreScore, overlays, refs, plugins } = processed
+
+  // 9. Trim whole blocks to fit maxTokens / maxChars (if set)
+  const budgetRatio = getBudgetRatio(options)
+  if (budgetRatio) {
+    removed.budget = applyBudget(
+      doc,
+      (d) => budgetRatio(withFrontmatter(frontmatterData, serialize(d.cloneNode(true), options))),
+      (node) => budgetRatio(serializeBlock(node, options)),
+    )
+  }
+
+  // 10. Markdown rewrite and serialize
+  let content = serialize(doc, options)
+
+  // 11. Run plugin post-serialize hooks
+  if (plugins) {
+    content = runStringHooks(plugins, 'postSerialize', content)
+  }
+
+  return {
+    frontmatter: frontmatterData,
+    content,
+    stats: {
+      inputLength,
+      outputLength: withFrontmatter(frontmatterData, content).length,
+      removed,
+      coreStrategy,
+      ...(coreScore !== undefined ? { coreScore } : {}),
+      overlays,
+    },
+    // Only references whose marker survived budget trimming
+    ...(refs ? { refs: Object.fromEntries(Object.entries(refs).filter(([ref]) => content.includes('[#' + ref + ']'))) } : {}),
+  }
+}
+
+/**
+ * wwwaxeDetailed - Strip non-content data from HTML, returning structured output
+ *
+ * Same pipeline as wwwaxe(), but returns the frontmatter data, the content
+ * without the frontmatter block, and statistics about what was removed.
+ */
+export function wwwaxeDetailed(html: string, options: WwwaxeOptions = {}): WwwaxeResult {
+  return finishDocument(processDocument(html, options), options, html.length)
+}
+
+/**
+ * wwwaxe - Strip non-content data from HTML
+ *
+ * Takes raw HTML and returns condensed HTML retaining meaningful structure
+ * and content while stripping scripts, styles, and presentational attributes.
+ */
+export function wwwaxe(html: string, options: WwwaxeOptions = {}): string {
+  const { frontmatter, content } = wwwaxeDetailed(html, options)
+  return withFrontmatter(frontmatter, content)
+}
+
+/**
+ * chunk - Split wwwaxe output into heading-delimited chunks for retrieval
+ *
+ * Runs the wwwaxe pipeline, then splits the processed document at h1–h6
+ * boundaries. Sections larger than the chunk size are split further at
+ * block (paragraph, list, table) boundaries, and oversized lists between
+ * items. Budget options (maxTokens / maxChars) are ignored, and
+ * linkStyle: 'reference' falls back to inline links so chunks stand alone.
+ */
+export function chunk(html: string, options: ChunkOptions = {}): Chunk[] {
+  const { doc, frontmatterData, plugins } = processDocument(html, options)
+  const targetSize = options.targetChunkSize ?? 1000
+  const maxSize = Math.max(options.maxChunkSize ?? 2000, targetSize)
+  const blockOptions: ChunkOptions = options.linkStyle === 'reference' ? { ...options, linkStyle: 'inline' } : options
+
+  const chunks: Chunk[] = []
+  for (const section of collectSections(doc)) {
+    const pieces = section.blocks.flatMap(node => splitBlock(node, blockOptions, targetSize, maxSize))
+
+    let current: ChunkPiece[] = []
+    let size = 0
+    const flush = () => {
+      if (current.length === 0) return
+      const content = current.map(piece => piece.text).join('\n')
+      const chunkData: Chunk = {
+        content: plugins ? runStringHooks(plugins, 'postSerialize', content) : content,
+        headings: section.headings,
+        frontmatter: frontmatterData,
+      }
+      const id = findChunkId(current[0].node, section.heading)
+      if (id) chunkData.id = id
+      chunks.push(chunkData)
+      current = []
+      size = 0
+    }
+
+    for (const piece of pieces) {
+      if (current.length > 0 && (size >= targetSize || size + 1 + piece.text.length > maxSize)) flush()
+      current.push(piece)
+      size += (current.length > 1 ? 1 : 0) + piece.text.length
+    }
+    flush()
+  }
+  return chunks
+}
+
+// ─── Pagination ─────────────────────────────────────────────────────────────
+
+/** Next / previous page URLs of a paginated article */
+export interface PageLinks {
+  next?: string
+  prev?: string
+}
+
+/** Link text (or aria-label) of pagination controls */
+const NEXT_PAGE_PATTERN = /^(?:next(?: page)?|older(?: (?:posts|entries))?|[›»→>])(?:\s*[›»→>])?$/i
+const PREV_PAGE_PATTERN = /^(?:[‹«←<]\s*)?(?:prev(?:ious)?(?: page)?|newer(?: (?:posts|entries))?|[‹«←<])$/i
+
+/** id / class / aria-label of pagination containers (not "page-header" or "On this page") */
+const PAGINATION_CONTAINER_PATTERN = /(?:^|[^a-z])(?:pagination|paging|pager|page[-_ ]?nav|page-numbers)/i
+
+function relTokens(el: Element): string[] {
+  return (el.attribs.rel || '').toLowerCase().split(/\s+/)
+}
+
+/**
+ * Whether an element is a pagination control, by its id, class or aria-label
+ */
+function isPaginationContainer(el: Element): boolean {
+  const name = [el.attribs.id, el.attribs.class, el.attribs['aria-label']].join(' ')
+  return PAGINATION_CONTAINER_PATTERN.test(name)
+}
+
+/**
+ * Whether a pagination container holds page links: rel next / prev,
+ * Next / Previous controls, or numbered pages
+ */
+function hasPageLinks(container: Element): boolean {
+  return findElements(container, (el) => {
+    if (el.tagName.toLowerCase() !== 'a') return false
+    if (relTokens(el).some(rel => ['next', 'prev', 'previous'].includes(rel))) return true
+    const label = (el.attribs['aria-label'] || textContent(el)).replace(/\s+/g, ' ').trim()
+    return NEXT_PAGE_PATTERN.test(label) || PREV_PAGE_PATTERN.test(label) || /^\d+$/.test(label)
+  }).length > 0
+}
+
+/**
+ * Whether an element sits inside a pagination control
+ */
+function isInPagination(el: Element): boolean {
+  for (let node: ParentNode | null = el.parentNode; node && isTag(node); node = node.parentNode) {
+    if (isPaginationContainer(node)) return true
+  }
+  return false
+}
+
+/**
+ * Find a page link: `<link rel>` first, then `<a rel>`, then pagination
+ * controls labelled Next / Previous (or ›, », …)
+ */
+function findPageLink(doc: Document, rels: string[], pattern: RegExp): string | undefined {
+  const usable = (el: Element) => {
+    const href = (el.attribs.href || '').trim()
+    return href !== '' && !href.startsWith('#') && !/^javascript:/i.test(href)
+  }
+
+  for (const tag of ['link', 'a']) {
+    const el = findElements(doc, (e) => e.tagName.toLowerCase() === tag && usable(e) && relTokens(e).some(rel => rels.includes(rel)))[0]
+    if (el) return el.attribs.href.trim()
+  }
+
+  const control = findElements(doc, (el) => {
+    if (el.tagName.toLowerCase() !== 'a' || !usable(el) || !isInPagination(el)) return false
+    const label = (el.attribs['aria-label'] || textContent(el)).replace(/\s+/g, ' ').trim()
+    return pattern.test(label)
+  })[0]
+  return control ? control.attribs.href.trim() : undefined
+}
+
+/**
+ * findPageLinks - Detect the next / previous page of a paginated article
+ *
+ * Looks at `<link rel="next|prev">`, `<a rel="next|prev">` and Next / Previous
+ * links in pagination controls. URLs are resolved against `baseUrl` (or the
+ * page's `<base href>` / canonical URL) when one is known.
+ */
+export function findPageLinks(html: string, options: WwwaxeOptions = {}): PageLinks {
+  const doc = parseDocument(html, { decodeEntities: true })
+  const baseUrl = findBaseUrl(doc, options, extractFrontmatter(doc))
+
+  const links: PageLinks = {}
+  const next = findPageLink(doc, ['next'], NEXT_PAGE_PATTERN)
+  const prev = findPageLink(doc, ['prev', 'previous'], PREV_PAGE_PATTERN)
+  if (next) links.next = resolveUrl(next, baseUrl)
+  if (prev) links.prev = resolveUrl(prev, baseUrl)
+  return links
+}
+
+/** Drops pagination controls from stitched pages: the merged article has no other pages to link to */
+const PAGINATION_PLUGIN: WwwaxePlugin = {
+  name: 'pagination',
+  element: (el) => isPaginationContainer(el) && hasPageLinks(el) ? 'remove' : undefined,
+}
+
+/**
+ * The innermost wrapper holding all of a processed page's content, e.g. the
+ * <article> in <main><article>…</article></main>, or the document itself
+ */
+function contentWrapper(doc: Document): ParentNode {
+  let wrapper: ParentNode = doc
+  for (;;) {
+    const children: ChildNode[] = getChildren(wrapper).filter(hasMeaningfulContent)
+    const only = children[0]
+    if (children.length !== 1 || !isTag(only) || BLOCK_TAGS.has(only.tagName.toLowerCase())) return wrapper
+    wrapper = only
+  }
+}
+
+/** Tag path from the document to a wrapper */
+function wrapperPath(wrapper: ParentNode): string {
+  const tags: string[] = []
+  for (let node: ParentNode | null = wrapper; node && isTag(node); node = node.parentNode) tags.unshift(node.tagName.toLowerCase())
+  return tags.join('>')
+}
+
+/**
+ * Normalized serialization of a block, for spotting blocks repeated across pages
+ */
+function blockSignature(node: ChildNode, options: WwwaxeOptions): string {
+  return serializeBlock(node, options).replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * stitchPages - Merge the pages of a paginated article into one result
+ *
+ * Processes each page like wwwaxeDetailed() and appends the pages' content in
+ * order. From every page after the first, the leading and trailing blocks that
+ * repeat blocks of earlier pages (title, byline, intro, share links) are
+ * dropped, and pagination controls are removed. When the pages share a
+ * wrapper (<main><article>), later pages continue inside the first page's.
+ * The frontmatter is the first page's; budget options apply to the merged
+ * content. elementRefs is not supported, since the references would point
+ * into different documents.
+ */
+export function stitchPages(pages: string[], options: WwwaxeOptions = {}): WwwaxeResult {
+  const pageOptions: WwwaxeOptions = {
+    ...options,
+    elementRefs: false,
+    plugins: [PAGINATION_PLUGIN, ...(options.plugins ?? [])],
+  }
+  const [first, ...rest] = pages.map(html => processDocument(html, pageOptions))
+  if (!first) return finishDocument(processDocument('', pageOptions), pageOptions, 0)
+
+  const seen = new Set(collectBlocks(first.doc).map(block => blockSignature(block.node, pageOptions)))
+
+  for (const page of rest) {
+    const blocks = collectBlocks(page.doc).map(block => ({ node: block.node, signature: blockSignature(block.node, pageOptions) }))
+
+    // Repeated blocks at either end of the page
+    let start = 0
+    while (start < blocks.length && seen.has(blocks[start].signature)) start++
+    let end = blocks.length
+    while (end > start && seen.has(blocks[end - 1].signature)) end--
+    for (const block of [...blocks.slice(0, start), ...blocks.slice(end)]) removeAndPrune(block.node)
+
+    for (const block of blocks.slice(start, end)) seen.add(block.signature)
+    // Continue inside the same wrapper of the merged document, if it has one
+    const wrapper = contentWrapper(page.doc)
+    const path = wrapperPath(wrapper)
+    const target = path ? findElements(first.doc, (el) => wrapperPath(el) === path).pop() : undefined
+    const [source, destination]: [ParentNode, ParentNode] = target ? [wrapper, target] : [page.doc, first.doc]
+    appendChild(destination, new Text('\n'))
+    for (const child of [...getChildren(source)]) appendChild(destination, child)
+
+    for (const [reason, count] of Object.entries(page.removed)) first.removed[reason as RemovalReason] += count
+    first.overlays.push(...page.overlays)
+  }
+
+  return finishDocument(first, pageOptions, pages.reduce((sum, html) => sum + html.length, 0))
+}
+
+// ─── Streaming ──────────────────────────────────────────────────────────────
+
+/** Anything wwwaxeStream can read from: a Node Readable, a web ReadableStream or any async iterable of chunks */
+export type WwwaxeStreamInput =
+  | AsyncIterable<string | Uint8Array>
+  | { getReader(): { read(): Promise<{ done: boolean, value?: string | Uint8Array }>, releaseLock(): void } }
+
+/**
+ * Streamed output: the chunks joined equal `wwwaxeDetailed().content`, and
+ * `withFrontmatter(await stream.frontmatter, joined)` equals `wwwaxe()`
+ */
+export interface WwwaxeStream extends AsyncIterable<string> {
+  /**
+   * The page's frontmatter. Resolves once the whole input has been consumed,
+   * since JSON-LD can appear anywhere in the document.
+   */
+  frontmatter: Promise<FrontmatterData>
+}
+
+/**
+ * Body-level elements that are streamed through instead of processed whole:
+ * their markdown rendering never depends on their children as a group
+ */
+const STREAM_CONTAINER_TAGS = new Set(['main', 'article', 'section', 'div', 'header', 'footer', 'nav', 'aside'])
+
+/**
+ * How a streamed container is emitted:
+ * - wrapper: the document's <html> / <body>, unwrapped by removeDocumentWrappers
+ * - unwrap: a presentational tag processNode unwraps
+ * - keep: a kept tag, emitted once it turns out to have meaningful content
+ * - remove: removed with all its children (hidden, removeTags)
+ * - head: the document's <head>, held for frontmatter
+ */
+type StreamContainerMode = 'root' | 'wrapper' | 'unwrap' | 'keep' | 'remove' | 'head'
+
+interface StreamContainer {
+  el: Element | null
+  mode: StreamContainerMode
+  parent: StreamContainer | null
+  closed: boolean
+  /** keep: whether the open tag has been emitted */
+  opened: boolean
+  /** keep: output of non-meaningful children, held until the container is known to be kept */
+  pending: string[]
+}
+
+/**
+ * Whether the output of these options depends on the whole document at once
+ * (core mode, budgets, hydration fallback, element refs, form label lookup, plugin hooks,
+ * selector filters, the reference link table, accessibility tree label lookup; plain
+ * text is rendered in one pass)
+ */
+function needsWholeDocument(options: WwwaxeOptions): boolean {
+  return !!options.core || options.maxTokens !== undefined || options.maxChars !== undefined ||
+    !!options.hydration || !!options.elementRefs || options.forms === 'summary' || !!options.plugins?.length ||
+    !!options.include || !!options.exclude || options.linkStyle === 'reference' ||
+    (options.output !== undefined && options.output !== 'markup')
+}
+
+/**
+ * Read a stream input as decoded text chunks
+ */
+async function* readTextChunks(input: WwwaxeStreamInput): AsyncGenerator<string> {
+  const decoder = new TextDecoder()
+  const decode = (chunk: string | Uint8Array) => typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
+
+  if ('getReader' in input) {
+    const reader = input.getReader()
+    try {
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        if (value !== undefined) yield decode(value)
+      }
+    } finally {
+      reader.releaseLock()
+    }
+  } else {
+    for await (const chunk of input) yield decode(chunk)
+  }
+
+  const rest = decoder.decode()
+  if (rest) yield rest
+}
+
+/**
+ * Incremental version of serialize()'s post-processing (`&gt; ` fix,
+ * collapseBlankLines, trim). Trailing whitespace is held back until more
+ * output arrives, so blank-line runs spanning two pieces collapse as if the
+ * output had been produced in one go.
+ */
+class StreamOutput {
+  private held = ''
+  private started = false
+  private ready = ''
+
+  constructor(private readonly markdown: boolean) {}
+
+  write(text: string): void {
+    const buffered = this.held + text
+    let cut = buffered.trimEnd().length
+    // Keep a trailing `&gt;` with the whitespace that may follow it
+    if (this.markdown && buffered.slice(0, cut).endsWith('&gt;')) cut -= 4
+    this.held = buffered.slice(cut)
+
+    let piece = buffered.slice(0, cut)
+    if (this.markdown) piece = piece.replace(/&gt; /g, '> ')
+    piece = collapseBlankLines(piece, this.markdown)
+    if (!this.started) {
+      piece = piece.trimStart()
+      this.started = piece.length > 0
+    }
+    this.ready += piece
+  }
+
+  /** Take the output that is final so far */
+  take(): string {
+    const ready = this.ready
+    this.ready = ''
+    return ready
+  }
+
+  /** Flush at end of input; trailing whitespace is trimmed like serialize() does */
+  end(): string {
+    let tail = this.markdown ? this.held.replace(/&gt; /g, '> ') : this.held
+    tail = tail.trimEnd()
+    this.held = ''
+    this.ready += this.started ? tail : tail.trimStart()
+    return this.take()
+  }
+}
+
+/**
+ * Processes a document while it is being parsed.
+ *
+ * htmlparser2's DomHandler builds the tree as usual. Whenever an element
+ * closes whose ancestors are all stream containers (html, body, main, div, …),
+ * the finished children of those containers are detached and run through the
+ * regular pipeline steps (processNode, collapseWhitespace, cleanTextNodes,
+ * markdownRewrite) one by one, and rendered. Containers themselves are never
+ * held whole: their open tag is emitted once they get meaningful content.
+ *
+ * RSC streaming pages (`<template id="B:N">`) are reassembled from content
+ * further down the page, so once a boundary template is seen the rest of the
+ * document is held and processed at the end.
+ */
+class StreamProcessor {
+  private readonly root: StreamContainer = { el: null, mode: 'root', parent: null, closed: false, opened: true, pending: [] }
+  private readonly states = new WeakMap<Element, StreamContainer | null>()
+  private readonly handler: DomHandler
+  private readonly parser: Parser
+  private readonly output: StreamOutput
+  private readonly config: ResolvedConfig
+  private readonly removed: Record<RemovalReason, number> = {
+    comment: 0, tag: 0, hidden: 0, meta: 0, empty: 0, unwrapped: 0, chrome: 0, overlay: 0, budget: 0, plugin: 0, excluded: 0, image: 0,
+  }
+
+  private processOptions: WwwaxeOptions | null = null
+  private wrapperHtml: Element | null = null
+  private wrapperBody = false
+  private wrapperHead = false
+  private deferred = false
+
+  /** Raw <head> plus JSON-LD scripts, <base> and <time> elements found outside it, for frontmatter */
+  private head: Element | null = null
+  private readonly metadata: Element[] = []
+
+  constructor(private readonly options: WwwaxeOptions) {
+    this.output = new StreamOutput(options.markdown !== false)
+    this.config = buildConfig(options)
+    this.handler = new DomHandler(null, null, (el) => this.onElementClose(el))
+    this.parser = new Parser(this.handler, { decodeEntities: true })
+  }
+
+  /** Feed a chunk of HTML; returns the output that became final */
+  write(chunk: string): string {
+    this.parser.write(chunk)
+    return this.output.take()
+  }
+
+  /** Finish parsing; returns the remaining output and the frontmatter */
+  end(): { content: string, frontmatter: FrontmatterData } {
+    this.parser.end()
+    if (this.deferred) reassembleRSCPayloads(this.handler.root)
+    this.flushChildren(this.handler.root, this.root)
+
+    const metaDoc = this.metadataDocument()
+    const frontmatter = extractFrontmatter(metaDoc)
+    const baseUrl = this.processOptions ? this.processOptions.baseUrl : findBaseUrl(metaDoc, this.options, frontmatter)
+    resolveFrontmatterUrls(frontmatter, baseUrl)
+    selectFrontmatterFields(frontmatter, this.options)
+    return { content: this.output.end(), frontmatter }
+  }
+
+  /** Document holding copies of the collected metadata elements */
+  private metadataDocument(): Document {
+    const nodes = this.head ? [this.head, ...this.metadata] : this.metadata
+    const lang = this.wrapperHtml?.attribs.lang
+    return new Document([createElement('html', nodes.map(node => node.cloneNode(true)), lang !== undefined ? { lang } : {})])
+  }
+
+  /** Options for processNode, with the base URL fixed on first use (the head is complete by then) */
+  private getProcessOptions(): WwwaxeOptions {
+    if (!this.processOptions) {
+      const metaDoc = this.metadataDocument()
+      const baseUrl = findBaseUrl(metaDoc, this.options, extractFrontmatter(metaDoc))
+      this.processOptions = { ...this.options, baseUrl }
+    }
+    return this.processOptions
+  }
+
+  private onElementClose(el: Element): void {
+    const state = this.getState(el)
+    if (state) state.closed = true
+    if (el.tagName.toLowerCase() === 'template' && /^B:\d+$/.test(el.attribs.id || '')) this.deferred = true
+    if (this.deferred) return
+
+    const parent = el.parentNode
+    const parentState = parent ? this.getParentState(parent) : null
+    if (!parentState) return
+
+    // Flush finished children top-down: siblings before the open container chain come first
+    const chain: ParentNode[] = []
+    for (let node: ParentNode | null = parent; node; node = node.parentNode) chain.unshift(node)
+    for (const node of chain) {
+      const nodeState = this.getParentState(node)
+      if (nodeState) this.flushChildren(node, nodeState)
+    }
+  }
+
+  private getParentState(node: ParentNode): StreamContainer | null {
+    if (node === this.handler.root) return this.root
+    return isTag(node) ? this.getState(node) : null
+  }
+
+  /**
+   * The stream container state of an element, or null when it is processed as a whole
+   */
+  private getState(el: Element): StreamContainer | null {
+    const cached = this.states.get(el)
+    if (cached !== undefined) return cached
+
+    let state: StreamContainer | null = null
+    const parentState = el.parentNode ? this.getParentState(el.parentNode) : null
+    if (parentState && parentState.mode !== 'remove' && parentState.mode !== 'head') {
+      const mode = this.containerMode(el, parentState)
+      if (mode) state = { el, mode, parent: parentState, closed: false, opened: false, pending: [] }
+    }
+    this.states.set(el, state)
+    return state
+  }
+
+  /**
+   * Mirror processNode's and removeDocumentWrappers' decisions for a container,
+   * using only its own attributes
+   */
+  private containerMode(el: Element, parentState: StreamContainer): StreamContainerMode | null {
+    const tag = el.tagName.toLowerCase()
+
+    if (tag === 'html' || tag === 'body' || tag === 'head') {
+      if (tag === 'html' && parentState === this.root && !this.wrapperHtml) {
+        this.wrapperHtml = el
+        return isHidden(el, this.options) ? 'remove' : 'wrapper'
+      }
+      if (!this.wrapperHtml || parentState.el !== this.wrapperHtml) return null
+      if (tag === 'head' && !this.wrapperHead) {
+        this.wrapperHead = true
+        return 'head'
+      }
+      if (tag === 'body' && !this.wrapperBody) {
+        this.wrapperBody = true
+        return isHidden(el, this.options) ? 'remove' : 'wrapper'
+      }
+      return null
+    }
+
+    if (!STREAM_CONTAINER_TAGS.has(tag)) return null
+    if (this.config.removeTags.has(tag) || isHidden(el, this.options)) return 'remove'
+
+    const processOptions = this.getProcessOptions()
+    stripAttributes(el, processOptions, this.config)
+    if (!this.config.keepTags.has(tag) && this.config.unwrapTags.has(tag) && !hasContentAttributes(el, processOptions, this.config)) {
+      return 'unwrap'
+    }
+    return 'keep'
+  }
+
+  /**
+   * Detach and emit the finished children of a container, stopping at a child container that is still open
+   */
+  private flushChildren(node: ParentNode, state: StreamContainer): void {
+    if (state.mode === 'head') return
+    for (const child of [...getChildren(node)]) {
+      const childState = isTag(child) ? this.getState(child) : null
+      if (childState && !childState.closed) break
+      removeElement(child)
+      if (childState) {
+        this.flushChildren(child as Element, childState)
+        this.closeContainer(childState)
+      } else {
+        this.flushUnit(child, state)
+      }
+    }
+  }
+
+  private closeContainer(state: StreamContainer): void {
+    if (state.mode === 'head' && !this.head) this.head = state.el
+    if (state.mode === 'keep' && state.opened) this.send(state.parent!, this.tagParts(state.el!)[1], false)
+  }
+
+  /**
+   * Run one finished node through the pipeline on its own and send its output up
+   */
+  private flushUnit(node: ChildNode, state: StreamContainer): void {
+    if (isTag(node)) this.collectMetadata(node)
+    if (state.mode === 'remove') return
+
+    const fragment = new Document([node])
+    node.parent = fragment
+    node.prev = null
+    node.next = null
+
+    processNode(node, isTag(node) ? this.getProcessOptions() : this.options, this.config, this.removed)
+    const meaningful = getChildren(fragment).some(hasMeaningfulContent)
+    collapseWhitespace(fragment)
+    cleanTextNodes(fragment)
+    if (this.options.markdown !== false) markdownRewrite(fragment, this.options)
+
+    const html = render(fragment, RENDER_OPTIONS).replace(/<!DOCTYPE[^>]*>/gi, '')
+    if (html) this.send(state, html, meaningful)
+  }
+
+  /**
+   * Pass output up to the nearest emitting container. A kept container emits
+   * its open tag (and held whitespace) on its first meaningful content.
+   */
+  private send(state: StreamContainer, html: string, meaningful: boolean): void {
+    switch (state.mode) {
+      case 'root':
+        this.output.write(html)
+        return
+      case 'wrapper':
+      case 'unwrap':
+        this.send(state.parent!, html, meaningful)
+        return
+      case 'keep':
+        if (state.opened) {
+          this.send(state.parent!, html, meaningful)
+        } else if (meaningful) {
+          state.opened = true
+          this.send(state.parent!, this.tagParts(state.el!)[0] + state.pending.join('') + html, true)
+          state.pending = []
+        } else {
+          state.pending.push(html)
+        }
+        return
+    }
+  }
+
+  /** Rendered open and close tags of an element */
+  private tagParts(el: Element): [string, string] {
+    const marker = '\uE000'
+    const html = render(createElement(el.tagName, [new Text(marker)], el.attribs), RENDER_OPTIONS)
+    const index = html.indexOf(marker)
+    return [html.slice(0, index), html.slice(index + marker.length)]
+  }
+
+  /**
+   * Keep what extractFrontmatter and findBaseUrl need before processNode strips it
+   */
+  private collectMetadata(node: Element): void {
+    let head: Element | null = null
+    if (!this.head) {
+      head = findElement(node, 'head')
+      if (head) this.head = head.cloneNode(true)
+    }
+    const inHead = (el: Element) => {
+      for (let parent: ParentNode | null = el; parent; parent = parent.parentNode) {
+        if (parent === head) return true
+      }
+      return false
+    }
+    const isTime = (el: Element) => el.tagName.toLowerCase() === 'time' && !!el.attribs.datetime?.trim()
+    for (const el of findElements(node, (e) => isJsonLdScript(e) || e.tagName.toLowerCase() === 'base' || isTime(e))) {
+      if (inHead(el)) continue
+      // Only the first <time> and the ones marked as publication / modification date matter
+      if (isTime(el) && this.metadata.some(isTime) && el.attribs.pubdate === undefined &&
+        !/^date(?:published|modified)$/i.test(el.attribs.itemprop || '')) continue
+      this.metadata.push(el.cloneNode(true))
+    }
+  }
+}
+
+/**
+ * wwwaxeStream - Process HTML as it arrives
+ *
+ * Accepts a Node Readable, a web ReadableStream or any async iterable of
+ * string / byte chunks, and yields output as soon as each part of the page is
+ * complete, without holding the whole document. The yielded chunks joined
+ * together equal `wwwaxeDetailed(html, options).content`; the frontmatter is
+ * available from `stream.frontmatter` once the input has been consumed.
+ *
+ * Options that need the whole document (core, maxTokens / maxChars,
+ * hydration, elementRefs, forms: 'summary', plugins, include / exclude,
+ * linkStyle: 'reference', output: 'a11y' / 'text') buffer the input and
+ * yield the output at the end.
+ */
+export function wwwaxeStream(input: WwwaxeStreamInput, options: WwwaxeOptions = {}): WwwaxeStream {
+  let resolveFrontmatter!: (frontmatter: FrontmatterData) => void
+  let rejectFrontmatter!: (error: unknown) => void
+  const frontmatter = new Promise<FrontmatterData>((resolve, reject) => {
+    resolveFrontmatter = resolve
+    rejectFrontmatter = reject
+  })
+  // Errors also surface through the iterator; don't report them twice as unhandled
+  frontmatter.catch(() => {})
+
+  async function* generate(): AsyncGenerator<string> {
+    try {
+      if (needsWholeDocument(options)) {
+        let html = ''
+        for await (const chunk of readTextChunks(input)) html += chunk
+        const result = wwwaxeDetailed(html, options)
+        if (result.content) yield result.content
+        resolveFrontmatter(result.frontmatter)
+        return
+      }
+
+      const processor = new StreamProcessor(options)
+      for await (const chunk of readTextChunks(input)) {
+        const output = processor.write(chunk)
+        if (output) yield output
+      }
+      const result = processor.end()
+      if (result.content) yield result.content
+      resolveFrontmatter(result.frontmatter)
+    } catch (err) {
+      rejectFrontmatter(err)
+      throw err
+    }
+  }
+
+  const iterator = generate()
+  return {
+    frontmatter,
+    [Symbol.asyncIterator]: () => iterator,
+  }
 }
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { chunk } from '../src/wwwaxe'
+
+describe('chunk', () => {
+  const page = `<!DOCTYPE html>
+<html>
+<head><title>Guide</title><link rel="canonical" href="https://example.com/guide"></head>
+<body>
+<main id="main">
+<p>Preamble before any heading.</p>
+<h1 id="intro">Intro</h1>
+<p>Welcome to the guide.</p>
+<h2>Setup</h2>
+<p>Install the package.</p>
+<h3 id="config">Config</h3>
+<p>Edit the config file.</p>
+<h2 id="usage">Usage</h2>
+<p>Call the function.</p>
+</main>
+</body>
+</html>`
+
+  it('splits at heading boundaries with a breadcrumb path', () => {
+    const chunks = chunk(page)
+    expect(chunks.map(c => c.headings)).toEqual([
+      [],
+      ['Intro'],
+      ['Intro', 'Setup'],
+      ['Intro', 'Setup', 'Config'],
+      ['Intro', 'Usage'],
+    ])
+    expect(chunks[2].content).toContain('## Setup')
+    expect(chunks[2].content).toContain('Install the package.')
+    expect(chunks[2].content).not.toContain('Edit the config')
+  })
+
+  it('carries the nearest element id', () => {
+    const ids = chunk(page).map(c => c.id)
+    expect(ids).toEqual(['main', 'intro', 'main', 'config', 'usage'])
+  })
+
+  it('omits the id when ids are not kept', () => {
+    const chunks = chunk(page, { keepIds: false })
+    expect(chunks.every(c => c.id === undefined)).toBe(true)
+  })
+
+  it('attaches the page frontmatter to every chunk', () => {
+    const chunks = chunk(page)
+    for (const c of chunks) {
+      expect(c.frontmatter).toEqual({ title: 'Guide', url: 'https://example.com/guide' })
+      expect(c.content).not.toContain('title: Guide')
+    }
+  })
+
+  it('splits oversized sections at paragraph boundaries', () => {
+    const paragraphs = Array.from({ length: 6 }, (_, i) => '<p>Paragraph ' + i + ' ' + 'text '.repeat(20) + '</p>').join('')
+    const chunks = chunk('<h2>Long</h2>' + paragraphs, { targetChunkSize: 200, maxChunkSize: 300 })
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const c of chunks) {
+      expect(c.headings).toEqual(['Long'])
+      expect(c.content.length).toBeLessThanOrEqual(300)
+      expect(c.content.match(/<p>/g)!.length).toBe(c.content.match(/<\/p>/g)!.length)
+    }
+    expect(chunks.map(c => c.content).join('\n')).toContain('Paragraph 5')
+  })
+
+  it('splits oversized lists between items', () => {
+    const items = Array.from({ length: 20 }, (_, i) => '<li>Item ' + i + ' ' + 'word '.repeat(10) + '</li>').join('')
+    const chunks = chunk('<h2>List</h2><ul>' + items + '</ul>', { targetChunkSize: 200, maxChunkSize: 300 })
+    expect(chunks.length).toBeGreaterThan(2)
+    for (const c of chunks) {
+      expect(c.content.length).toBeLessThanOrEqual(300)
+      expect(c.content).not.toContain('<li>')
+    }
+    expect(chunks[chunks.length - 1].content).toContain('- Item 19')
+  })
+})
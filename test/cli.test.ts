@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, existsSync, rmSync, readdirSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { main, parseCliArgs, CliError } from '../src/cli'
+import type { CliIO } from '../src/cli'
+
+// Record directory reads so tests can check how far a glob walks
+vi.mock('fs', async (importOriginal) => {
+  const fs = await importOriginal<typeof import('fs')>()
+  return { ...fs, readdirSync: vi.fn(fs.readdirSync) }
+})
+
+function fakeIO(stdin = '') {
+  const out: string[] = []
+  const err: string[] = []
+  const io: CliIO = {
+    stdout: (text) => { out.push(text) },
+    stderr: (text) => { err.push(text) },
+    readStdin: async () => stdin,
+  }
+  return { io, out: () => out.join(''), err: () => err.join('') }
+}
+
+describe('cli', () => {
+  describe('parseCliArgs', () => {
+    it('maps flags to wwwaxe options', () => {
+      const args = parseCliArgs([
+        '--core', '--no-markdown', '--keep-classes', '--no-keep-ids',
+        '--base-url', 'https://example.com/', '--max-tokens=500', '--forms', 'summary',
+        '--link-style', 'reference', '--drop-trivial-links', '--images', 'smart', '--output', 'a11y', '--include', '.post-body', '--frontmatter-fields', 'title, url', 'page.html',
+      ])
+      expect(args.options).toEqual({
+        core: true,
+        markdown: false,
+        keepClasses: true,
+        keepIds: false,
+        baseUrl: 'https://example.com/',
+        maxTokens: 500,
+        forms: 'summary',
+        linkStyle: 'reference',
+        dropTrivialLinks: true,
+        images: 'smart',
+        output: 'a11y',
+        include: '.post-body',
+        frontmatterFields: ['title', 'url'],
+      })
+      expect(args.inputs).toEqual(['page.html'])
+    })
+
+    it('rejects unknown options and bad numbers', () => {
+      expect(() => parseCliArgs(['--nope'])).toThrow(CliError)
+      expect(() => parseCliArgs(['--max-chars', 'lots'])).toThrow(CliError)
+      expect(() => parseCliArgs(['--base-url'])).toThrow(CliError)
+      expect(() => parseCliArgs(['--forms', 'table'])).toThrow(CliError)
+    })
+
+    it('maps list override flags to arrays added to the defaults', () => {
+      const args = parseCliArgs([
+        '--remove-tags', 'iframe,object', '--unwrap-tags=font', '--keep-tags', 'x-card', '--content-attributes', 'itemprop',
+        '--chrome-tags', 'x-banner', '--chrome-roles', 'search', '--content-ids', 'article-body',
+      ])
+      expect(args.options).toEqual({
+        removeTags: ['iframe', 'object'],
+        unwrapTags: ['font'],
+        keepTags: ['x-card'],
+        contentAttributes: ['itemprop'],
+        chromeTags: ['x-banner'],
+        chromeRoles: ['search'],
+        contentIds: ['article-body'],
+      })
+    })
+
+    it('maps --strip-overlays and --no-strip-overlays', () => {
+      expect(parseCliArgs(['--core', '--no-strip-overlays']).options).toEqual({ core: true, stripOverlays: false })
+      expect(parseCliArgs(['--strip-overlays']).options).toEqual({ stripOverlays: true })
+    })
+  })
+
+  describe('main', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'wwwaxe-cli-'))
+      mkdirSync(join(dir, 'pages', 'nested'), { recursive: true })
+      writeFileSync(join(dir, 'pages', 'a.html'), '<html><head><title>A</title></head><body><nav>Menu</nav><main><p>Page A</p></main></body></html>')
+      writeFileSync(join(dir, 'pages', 'nested', 'b.htm'), '<p>Page B</p>')
+      writeFileSync(join(dir, 'pages', 'notes.txt'), 'not html')
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('reads stdin when no input is given', async () => {
+      const { io, out } = fakeIO('<p>From <b>stdin</b></p>')
+      expect(await main([], io)).toBe(0)
+      expect(out()).toBe('<p>From **stdin**</p>\n')
+    })
+
+    it('passes options through to wwwaxe', async () => {
+      const { io, out } = fakeIO()
+      expect(await main(['--core', join(dir, 'pages', 'a.html')], io)).toBe(0)
+      expect(out()).toContain('title: A')
+      expect(out()).toContain('Page A')
+      expect(out()).not.toContain('Menu')
+    })
+
+    it('expands directories to their HTML files', async () => {
+      const { io, out } = fakeIO()
+      expect(await main([join(dir, 'pages')], io)).toBe(0)
+      expect(out()).toContain('Page A')
+      expect(out()).toContain('Page B')
+      expect(out()).not.toContain('not html')
+      expect(out()).toContain('==> ')
+    })
+
+    it('expands glob patterns', async () => {
+      const { io, out } = fakeIO()
+      expect(await main(['--stats', join(dir, 'pages', '**', '*.htm')], io)).toBe(0)
+      expect(out()).toMatch(/b\.htm: raw=\d+ output=\d+/)
+      expect(out()).not.toContain('a.html')
+    })
+
+    it('only walks as deep as the glob reaches', async () => {
+      const { io, out } = fakeIO()
+      vi.mocked(readdirSync).mockClear()
+      expect(await main([join(dir, 'pages', '*.html')], io)).toBe(0)
+      expect(out()).toContain('Page A')
+      const walked = vi.mocked(readdirSync).mock.calls.map(([path]) => String(path))
+      expect(walked).toEqual([join(dir, 'pages')])
+    })
+
+    it('reports unreadable directories with exit code 2', async () => {
+      const { io, err } = fakeIO()
+      vi.mocked(readdirSync).mockImplementationOnce(() => {
+        throw Object.assign(new Error('EACCES: permission denied'), { code: 'EACCES' })
+      })
+      expect(await main([join(dir, 'pages', '**', '*.htm')], io)).toBe(2)
+      expect(err()).toContain('Cannot read directory ' + join(dir, 'pages') + ': EACCES')
+    })
+
+    it('writes one file per input to the output directory', async () => {
+      const { io, out } = fakeIO()
+      const outDir = join(dir, 'out')
+      expect(await main(['-o', outDir, join(dir, 'pages')], io)).toBe(0)
+      expect(out()).toBe('')
+      expect(readFileSync(join(outDir, 'a.md'), 'utf8')).toContain('Page A')
+      expect(existsSync(join(outDir, 'nested', 'b.md'))).toBe(true)
+    })
+
+    it('prints raw and output sizes with --stats', async () => {
+      const { io, out } = fakeIO()
+      const file = join(dir, 'pages', 'a.html')
+      expect(await main(['--stats', file], io)).toBe(0)
+      expect(out()).toMatch(/a\.html: raw=\d+ output=\d+ \(-\d+%\)\n$/)
+      expect(out()).not.toContain('Page A')
+    })
+
+    it('reports invalid selectors with exit code 2', async () => {
+      const { io, err } = fakeIO()
+      expect(await main(['--exclude', 'div[', join(dir, 'pages', 'a.html')], io)).toBe(2)
+      expect(err()).toContain('Invalid selector in exclude')
+    })
+
+    it('applies list overrides and reports conflicting ones with exit code 2', async () => {
+      const page = join(dir, 'pages', 'a.html')
+      const ok = fakeIO()
+      expect(await main(['--content-ids', 'article-body', page], ok.io)).toBe(0)
+      const { io, err } = fakeIO()
+      expect(await main(['--keep-tags', 'script', page], io)).toBe(2)
+      expect(err()).toContain('script')
+    })
+
+    it('reports missing inputs with exit code 2', async () => {
+      const { io, err } = fakeIO()
+      expect(await main([join(dir, 'missing.html')], io)).toBe(2)
+      expect(err()).toContain('No such file or directory')
+    })
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { stitchPages, findPageLinks, wwwaxeDetailed } from '../src/wwwaxe'
+
+const page = (n: number, body: string) => `<html>
+<head>
+<title>The big story (page ${n})</title>
+<link rel="canonical" href="https://news.example/story?page=${n}">
+${n > 1 ? `<link rel="prev" href="/story?page=${n - 1}">` : ''}
+${n < 3 ? `<link rel="next" href="/story?page=${n + 1}">` : ''}
+</head>
+<body>
+<nav><a href="/">Home</a></nav>
+<main><article>
+<h1>The big story</h1>
+<p>By Ann Writer</p>
+<p>The intro paragraph that every page of the story repeats.</p>
+${body}
+<p>Share this story</p>
+<div class="pagination"><a href="?page=1">1</a> <a href="?page=2">2</a> <a href="?page=3">3</a></div>
+</article></main>
+</body>
+</html>`
+
+const pages = [
+  page(1, '<p>Part one.</p>'),
+  page(2, '<h2>Later that day</h2><p>Part two.</p>'),
+  page(3, '<p>Part three.</p>'),
+]
+
+describe('stitchPages', () => {
+  it('merges the pages in order with one frontmatter block', () => {
+    const result = stitchPages(pages, { core: true })
+    expect(result.frontmatter).toEqual({ title: 'The big story (page 1)', url: 'https://news.example/story?page=1' })
+    expect(result.content.indexOf('Part one.')).toBeLessThan(result.content.indexOf('Part two.'))
+    expect(result.content.indexOf('Part two.')).toBeLessThan(result.content.indexOf('Part three.'))
+  })
+
+  it('drops the header, intro and footer repeated by later pages', () => {
+    const { content } = stitchPages(pages, { core: true })
+    expect(content.match(/# The big story/g)).toHaveLength(1)
+    expect(content.match(/By Ann Writer/g)).toHaveLength(1)
+    expect(content.match(/intro paragraph/g)).toHaveLength(1)
+    expect(content.match(/Share this story/g)).toHaveLength(1)
+    expect(content).toContain('## Later that day')
+  })
+
+  it('continues later pages inside the shared wrapper and removes pagination', () => {
+    const { content } = stitchPages(pages)
+    expect(content.match(/<article>/g)).toHaveLength(1)
+    expect(content).not.toContain('?page=')
+  })
+
+  it('keeps navs that are not pagination controls', () => {
+    const withNavs = pages.map(html => html.replace('<h1>The big story</h1>',
+      '<h1>The big story</h1><nav class="page-header"><a href="/news">News section</a></nav>' +
+      '<nav aria-label="On this page"><a href="#part-two">Part two</a></nav>' +
+      '<div class="newspaper-credit"><a href="/about">About the paper</a></div>'))
+    const { content } = stitchPages(withNavs, { core: false })
+    expect(content).toContain('News section')
+    expect(content).toContain('[Part two](#part-two)')
+    expect(content).toContain('About the paper')
+    expect(content).not.toContain('?page=')
+  })
+
+  it('applies the budget to the merged content', () => {
+    const { content, stats } = stitchPages(pages, { core: true, maxChars: 120 })
+    expect(content.length).toBeLessThanOrEqual(120)
+    expect(stats.removed.budget).toBeGreaterThan(0)
+    expect(stats.inputLength).toBe(pages.reduce((sum, html) => sum + html.length, 0))
+  })
+
+  it('matches wwwaxeDetailed for a single page, apart from pagination', () => {
+    const html = '<main><h1>Title</h1><p>Only page.</p></main>'
+    expect(stitchPages([html]).content).toBe(wwwaxeDetailed(html).content)
+    expect(stitchPages([]).content).toBe('')
+  })
+})
+
+describe('findPageLinks', () => {
+  it('reads link rel="next" / rel="prev", resolved against the page URL', () => {
+    expect(findPageLinks(pages[1])).toEqual({
+      next: 'https://news.example/story?page=3',
+      prev: 'https://news.example/story?page=1',
+    })
+    expect(findPageLinks(pages[2])).toEqual({ prev: 'https://news.example/story?page=2' })
+  })
+
+  it('falls back to anchors with rel and to labelled pagination controls', () => {
+    expect(findPageLinks('<p><a rel="nofollow next" href="/b">Continue</a></p>')).toEqual({ next: '/b' })
+    const pager = '<div class="pager"><a href="/p/1">« Previous</a> <a href="#">1</a> <a href="/p/3" aria-label="Next page">›</a></div>'
+    expect(findPageLinks(pager, { baseUrl: 'https://example.com/p/2' })).toEqual({
+      next: 'https://example.com/p/3',
+      prev: 'https://example.com/p/1',
+    })
+  })
+
+  it('recognises "Page navigation" labels but not other navs mentioning a page', () => {
+    expect(findPageLinks('<nav aria-label="Page navigation"><a href="/p/2">Next</a></nav>')).toEqual({ next: '/p/2' })
+    expect(findPageLinks('<nav aria-label="On this page"><a href="/p/2">Next</a></nav>')).toEqual({})
+  })
+
+  it('ignores next / previous links outside pagination controls', () => {
+    expect(findPageLinks('<p><a href="/story-2">Next</a></p>')).toEqual({})
+  })
+})
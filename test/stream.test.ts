@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { Readable } from 'stream'
+import { wwwaxe, wwwaxeDetailed, wwwaxeStream, withFrontmatter } from '../src/wwwaxe'
+import type { WwwaxeOptions, WwwaxeStream } from '../src/wwwaxe'
+
+async function* chunked(html: string, size: number): AsyncGenerator<string> {
+  for (let i = 0; i < html.length; i += size) yield html.slice(i, i + size)
+}
+
+async function collect(stream: WwwaxeStream): Promise<string[]> {
+  const parts: string[] = []
+  for await (const part of stream) parts.push(part)
+  return parts
+}
+
+async function streamed(html: string, size: number, options: WwwaxeOptions = {}): Promise<string> {
+  const stream = wwwaxeStream(chunked(html, size), options)
+  const parts = await collect(stream)
+  return withFrontmatter(await stream.frontmatter, parts.join(''))
+}
+
+describe('wwwaxeStream', () => {
+  const page = `<!DOCTYPE html>
+<html>
+<head><title>Guide</title><link rel="canonical" href="https://example.com/guide"></head>
+<body>
+<nav><a href="/">Home</a></nav>
+<main>
+<article id="guide">
+<h1>Guide</h1>
+<div class="intro"><p>Welcome to the guide &gt; read on.</p></div>
+<div hidden><p>Hidden</p></div>
+<section id="empty">
+
+</section>
+<blockquote>Quoted text</blockquote>
+
+
+<pre><code class="language-js">const a = 1
+
+
+const b = 2</code></pre>
+<ul><li>One</li><li>Two</li></ul>
+<table><tr><th>Key</th></tr><tr><td>Value</td></tr></table>
+</article>
+</main>
+<script type="application/ld+json">{"@type":"Article","headline":"Guide","author":{"name":"Ada"}}</script>
+</body>
+</html>`
+
+  it('matches wwwaxe() for any chunking', async () => {
+    for (const options of [{}, { markdown: false }, { keepClasses: true }]) {
+      const expected = wwwaxe(page, options)
+      const { content } = wwwaxeDetailed(page, options)
+      for (const size of [1, 16, page.length]) {
+        const stream = wwwaxeStream(chunked(page, size), options)
+        const joined = (await collect(stream)).join('')
+        // The frontmatter block is not streamed; it resolves separately
+        expect(joined).toBe(content)
+        expect(withFrontmatter(await stream.frontmatter, joined)).toBe(expected)
+      }
+    }
+  })
+
+  it('yields output before the input has been consumed', async () => {
+    const html = '<main>' + Array.from({ length: 200 }, (_, i) => `<div><p>Paragraph ${i}</p></div>`).join('\n') + '</main>'
+    let fed = 0
+    async function* source() {
+      for await (const part of chunked(html, 256)) {
+        fed += part.length
+        yield part
+      }
+    }
+    const first = await wwwaxeStream(source())[Symbol.asyncIterator]().next()
+    expect(first.value).toContain('Paragraph 0')
+    expect(fed).toBeLessThan(html.length)
+  })
+
+  it('resolves the frontmatter once the input is consumed', async () => {
+    const stream = wwwaxeStream(chunked(page, 64))
+    await collect(stream)
+    expect(await stream.frontmatter).toMatchObject({
+      title: 'Guide',
+      url: 'https://example.com/guide',
+    })
+  })
+
+  it('matches wwwaxe() on the fixtures', async () => {
+    for (const name of ['rsc-streaming.html', 'empty-main-spa.html']) {
+      const html = readFileSync(join(__dirname, 'fixtures', name), 'utf8')
+      expect(await streamed(html, 100)).toBe(wwwaxe(html))
+    }
+  })
+
+  it('reads Node streams and web ReadableStreams of bytes', async () => {
+    const html = '<div><p>Café — naïve</p></div>'
+    const bytes = Buffer.from(html)
+    // Split in the middle of multi-byte characters
+    const pieces = Array.from({ length: bytes.length }, (_, i) => bytes.subarray(i, i + 1))
+
+    const fromNode = await collect(wwwaxeStream(Readable.from(pieces)))
+    expect(fromNode.join('')).toBe(wwwaxe(html))
+
+    const web = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const piece of pieces) controller.enqueue(new Uint8Array(piece))
+        controller.close()
+      },
+    })
+    expect((await collect(wwwaxeStream(web))).join('')).toBe(wwwaxe(html))
+  })
+
+  it('buffers options that need the whole document', async () => {
+    const options = { core: true, maxChars: 200 }
+    const stream = wwwaxeStream(chunked(page, 32), options)
+    const parts = await collect(stream)
+    expect(parts).toHaveLength(1)
+    expect(withFrontmatter(await stream.frontmatter, parts[0])).toBe(wwwaxe(page, options))
+  })
+
+  it('rejects the frontmatter when the input fails', async () => {
+    async function* failing() {
+      yield '<p>Start</p>'
+      throw new Error('connection reset')
+    }
+    const stream = wwwaxeStream(failing())
+    await expect(collect(stream)).rejects.toThrow('connection reset')
+    await expect(stream.frontmatter).rejects.toThrow('connection reset')
+  })
+})
@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest'
-import { wwwaxe } from '../src/wwwaxe'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import render from 'dom-serializer'
+import { wwwaxe, wwwaxeDetailed, resolveConfig, WwwaxeConfigError } from '../src/wwwaxe'
+import type { WwwaxePlugin } from '../src/wwwaxe'
 
 describe('wwwaxe', () => {
   describe('script and style removal', () => {
@@ -162,7 +166,7 @@ describe('wwwaxe', () => {
           <tbody><tr><td>Alice</td><td>30</td></tr></tbody>
         </table>
       `
-      const result = wwwaxe(html)
+      const result = wwwaxe(html, { markdown: false })
       expect(result).toContain('<table>')
       expect(result).toContain('<thead>')
       expect(result).toContain('<th>Name</th>')
@@ -274,6 +278,135 @@ describe('wwwaxe', () => {
     })
   })
 
+  describe('JSON-LD frontmatter', () => {
+    const ld = (data: unknown) => '<script type="application/ld+json">' + JSON.stringify(data) + '</script>'
+
+    it('extracts article author and dates', () => {
+      const html = '<html><head><title>Post</title>' + ld({
+        '@context': 'https://schema.org',
+        '@type': 'NewsArticle',
+        headline: 'Big News',
+        author: [{ '@type': 'Person', name: 'Jane Doe' }, { '@type': 'Person', name: 'John Roe' }],
+        datePublished: '2024-01-15T08:00:00Z',
+      }) + '</head><body><p>Hi</p></body></html>'
+      const result = wwwaxe(html)
+      expect(result).toContain('jsonld:\n  type: NewsArticle\n  headline: Big News\n  author: Jane Doe, John Roe\n  datePublished: 2024-01-15T08:00:00Z')
+      expect(result).not.toContain('@context')
+    })
+
+    it('joins every entry of array values, skipping empty ones', () => {
+      const html = '<html><head>' + ld({ '@type': 'Article', author: ['Ann', { name: 'Bo' }, '', { '@id': '#x' }] }) +
+        '</head><body><p>Hi</p></body></html>'
+      expect(wwwaxe(html)).toContain('  author: Ann, Bo\n')
+    })
+
+    it('extracts product price and rating from a @graph in the body', () => {
+      const html = '<html><head></head><body><p>Shop</p>' + ld({
+        '@graph': [
+          { '@type': 'WebSite', name: 'Shop' },
+          {
+            '@type': 'Product',
+            name: 'Widget',
+            offers: { '@type': 'Offer', price: 19.99, priceCurrency: 'USD', availability: 'https://schema.org/InStock' },
+            aggregateRating: { '@type': 'AggregateRating', ratingValue: 4.5, reviewCount: 120 },
+          },
+        ],
+      }) + '</body></html>'
+      const result = wwwaxe(html)
+      expect(result).toContain('  type: Product')
+      expect(result).toContain('  price: 19.99')
+      expect(result).toContain('  priceCurrency: USD')
+      expect(result).toContain('  availability: InStock')
+      expect(result).toContain('  rating: 4.5')
+      expect(result).toContain('  reviewCount: 120')
+    })
+
+    it('extracts breadcrumbs in position order', () => {
+      const html = '<html><head>' + ld({
+        '@type': 'BreadcrumbList',
+        itemListElement: [
+          { '@type': 'ListItem', position: 2, name: 'Blog' },
+          { '@type': 'ListItem', position: 1, item: { '@id': '/', name: 'Home' } },
+        ],
+      }) + '</head><body><p>Hi</p></body></html>'
+      const result = wwwaxe(html)
+      expect(result).toContain('jsonld:\n  breadcrumb:\n    - Home\n    - Blog')
+    })
+
+    it('skips malformed JSON-LD without failing', () => {
+      const html = '<html><head><title>Page</title><script type="application/ld+json">{ not json </script>' +
+        ld({ '@type': 'Article', author: 'Ann' }) + '</head><body><p>Hi</p></body></html>'
+      const result = wwwaxe(html)
+      expect(result).toContain('title: Page')
+      expect(result).toContain('  author: Ann')
+      expect(result).not.toContain('not json')
+    })
+  })
+
+  describe('page metadata frontmatter', () => {
+    const html = `<html lang="en-GB"><head>
+      <title>Story</title>
+      <link rel="canonical" href="https://news.example/story">
+      <meta name="author" content="Ann Writer">
+      <meta property="article:published_time" content="2024-05-01T09:00:00Z">
+      <meta property="og:updated_time" content="2024-05-02T10:00:00Z">
+      <meta property="og:site_name" content="News Example">
+      <meta property="og:type" content="article">
+      <meta name="keywords" content="politics, economy,">
+      <meta property="article:tag" content="economy">
+      <meta property="article:tag" content="budget">
+      <link rel="alternate" type="application/rss+xml" title="All stories" href="/feed.xml">
+      <link rel="alternate" type="application/atom+xml" href="/atom.xml">
+      <link rel="alternate" hreflang="de" href="/de/story">
+      <link rel="alternate" hreflang="x-default" href="/story">
+    </head><body><p>Hi</p></body></html>`
+
+    it('emits author, dates, language, site, type, keywords, feeds and translations', () => {
+      const { frontmatter } = wwwaxeDetailed(html)
+      expect(frontmatter).toMatchObject({
+        author: 'Ann Writer',
+        published: '2024-05-01T09:00:00Z',
+        modified: '2024-05-02T10:00:00Z',
+        lang: 'en-GB',
+        siteName: 'News Example',
+        type: 'article',
+        keywords: ['politics', 'economy', 'budget'],
+        feeds: [
+          { url: 'https://news.example/feed.xml', type: 'rss', title: 'All stories' },
+          { url: 'https://news.example/atom.xml', type: 'atom' },
+        ],
+        translations: { 'de': 'https://news.example/de/story', 'x-default': 'https://news.example/story' },
+      })
+    })
+
+    it('renders the fields as YAML in a fixed order', () => {
+      expect(wwwaxe(html)).toContain([
+        'author: Ann Writer',
+        'published: 2024-05-01T09:00:00Z',
+        'modified: 2024-05-02T10:00:00Z',
+        'lang: en-GB',
+        'siteName: News Example',
+        'type: article',
+        'keywords:\n  - politics\n  - economy\n  - budget',
+        'feeds:\n  - url: https://news.example/feed.xml\n    type: rss\n    title: All stories\n  - url: https://news.example/atom.xml\n    type: atom',
+        'translations:\n  de: https://news.example/de/story\n  x-default: https://news.example/story',
+      ].join('\n'))
+    })
+
+    it('falls back to <time> elements for the dates', () => {
+      const page = '<article><time datetime="2023-01-01">Jan</time><p>Text</p>' +
+        '<time itemprop="datePublished" datetime="2023-02-01">Feb</time><time itemprop="dateModified" datetime="2023-03-01">Mar</time></article>'
+      expect(wwwaxeDetailed(page).frontmatter).toEqual({ published: '2023-02-01', modified: '2023-03-01' })
+      expect(wwwaxeDetailed('<p><time datetime="2023-01-01">Jan</time></p>').frontmatter).toEqual({ published: '2023-01-01' })
+    })
+
+    it('emits only the chosen fields', () => {
+      expect(wwwaxe(html, { frontmatterFields: ['url', 'title'] })).toBe('---\ntitle: Story\nurl: https://news.example/story\n---\n<p>Hi</p>')
+      expect(wwwaxe(html, { frontmatterFields: [] })).toBe('<p>Hi</p>')
+      expect(() => wwwaxe(html, { frontmatterFields: ['date' as never] })).toThrow('Unknown frontmatter field: "date"')
+    })
+  })
+
   describe('empty element removal', () => {
     it('removes empty paragraphs', () => {
       const html = '<div><p></p><p>Content</p><p>   </p></div>'
@@ -420,6 +553,104 @@ describe('wwwaxe', () => {
       expect(result).not.toContain('<nav')
       expect(result).toContain('Content')
     })
+
+    it('falls back to content scoring when no semantic container exists', () => {
+      const paragraph = '<p>This is a long paragraph of body text, with commas, clauses, and enough words to look like real prose that a reader would want to keep.</p>'
+      const html = `
+        <body>
+          <div class="menu"><p><a href="/a">A very long navigation link one</a> <a href="/b">A very long navigation link two</a></p></div>
+          <div class="story"><h1>Story</h1>${paragraph.repeat(5)}</div>
+          <div class="promo"><p>Subscribe today for the weekly digest of stories.</p></div>
+        </body>`
+      const result = wwwaxeDetailed(html, { core: true })
+      expect(result.stats.coreStrategy).toBe('score')
+      expect(result.stats.coreScore).toBeGreaterThanOrEqual(20)
+      expect(result.content).toContain('# Story')
+      expect(result.content).toContain('real prose')
+      expect(result.content).not.toContain('navigation link')
+      expect(result.content).not.toContain('Subscribe')
+    })
+
+    it('penalizes link-heavy candidates', () => {
+      const links = '<p><a href="/x">A linked headline that is long enough, with commas, to score</a></p>'.repeat(8)
+      const prose = '<p>Plain prose that is long enough, with a comma or two, to count as content here.</p>'.repeat(8)
+      const html = `<body><div class="links">${links}</div><div class="body">${prose}</div></body>`
+      const result = wwwaxeDetailed(html, { core: true })
+      expect(result.stats.coreStrategy).toBe('score')
+      expect(result.content).toContain('Plain prose')
+      expect(result.content).not.toContain('linked headline')
+    })
+
+    it('ignores inline script and style text when measuring content', () => {
+      const script = '<script>window.dataLayer = window.dataLayer || [], track("view", { page: 1, user: 2, ab: 3 }), init();</script>'
+      const style = '<style>.a, .b, .c, .d { color: red; margin: 0, padding: 0 } .widget, .card { display: none }</style>'
+      const prose = '<p>Plain prose that is long enough, with a comma or two, to count as content here.</p>'.repeat(8)
+      const widgets = `<p>${script}Widget</p><li>${style}Card</li>`.repeat(8)
+      const html = `<body><main>${script}${style}</main><div class="widgets"><ul>${widgets}</ul></div><div class="body">${prose}</div></body>`
+      const result = wwwaxeDetailed(html, { core: true })
+      expect(result.stats.coreStrategy).toBe('score')
+      expect(result.content).toContain('Plain prose')
+      expect(result.content).not.toContain('Widget')
+    })
+
+    it('keeps the whole body when no candidate scores high enough', () => {
+      const result = wwwaxeDetailed('<body><div><p>Short text that is just above the minimum.</p></div></body>', { core: true })
+      expect(result.stats.coreStrategy).toBe('body')
+      expect(result.stats.coreScore).toBeUndefined()
+    })
+  })
+
+  describe('overlay removal (core mode)', () => {
+    const article = '<main><h1>Story</h1><p>This is the real article text, long enough to be the main content of the page.</p></main>'
+
+    it('removes well-known consent managers by id', () => {
+      const html = '<body><div id="onetrust-consent-sdk"><p>We value your privacy</p><button>OK</button></div>' + article + '</body>'
+      const result = wwwaxeDetailed(html, { core: true })
+      expect(result.content).not.toContain('privacy')
+      expect(result.content).toContain('real article text')
+      expect(result.stats.overlays).toEqual([{
+        element: 'div#onetrust-consent-sdk',
+        reason: 'consent manager: onetrust-consent-sdk',
+        text: 'We value your privacyOK',
+      }])
+      expect(result.stats.removed.overlay).toBe(1)
+    })
+
+    it('removes alertdialogs, aria-modal and generically named overlays', () => {
+      const html = '<body>' +
+        '<div role="alertdialog"><p>Allow notifications?</p></div>' +
+        '<div aria-modal="true"><p>Sign in to continue</p></div>' +
+        '<div class="newsletter-modal"><p>Get weekly updates</p></div>' +
+        article + '</body>'
+      const result = wwwaxeDetailed(html, { core: true })
+      expect(result.content).not.toContain('notifications')
+      expect(result.content).not.toContain('Sign in')
+      expect(result.content).not.toContain('weekly')
+      expect(result.stats.overlays.map(o => o.reason)).toEqual([
+        'role="alertdialog"', 'aria-modal="true"', 'overlay name: newsletter-modal',
+      ])
+    })
+
+    it('removes small actionable blocks with consent text', () => {
+      const html = '<body><div class="x1"><p>We use cookies to improve your experience.</p><button>Accept all cookies</button></div>' + article + '</body>'
+      const result = wwwaxeDetailed(html, { core: true })
+      expect(result.content).not.toContain('improve your experience')
+      expect(result.stats.overlays[0].reason).toBe('text: "accept all cookies"')
+    })
+
+    it('keeps articles that merely mention cookies', () => {
+      const html = '<body><main><h1>Cookies</h1><p>We use cookies in this recipe. ' + 'Flour, sugar and butter. '.repeat(40) + '<a href="/more">More</a></p></main></body>'
+      const result = wwwaxeDetailed(html, { core: true })
+      expect(result.content).toContain('We use cookies in this recipe')
+      expect(result.stats.overlays).toEqual([])
+    })
+
+    it('leaves overlays alone outside core mode or with stripOverlays: false', () => {
+      const html = '<body><div id="CybotCookiebotDialog"><p>Consent please</p></div>' + article + '</body>'
+      expect(wwwaxe(html)).toContain('Consent please')
+      expect(wwwaxe(html, { core: true, stripOverlays: false })).toContain('Consent please')
+      expect(wwwaxe(html, { core: true })).not.toContain('Consent please')
+    })
   })
 
   describe('markdown rewrites', () => {
@@ -476,6 +707,37 @@ describe('wwwaxe', () => {
       expect(result).toContain('3. Third')
     })
 
+    it('indents nested lists under their parent item', () => {
+      const html = '<ul><li>One<ul><li>A</li><li>B<ol><li>x</li><li>y</li></ol></li></ul></li><li>Two</li></ul>'
+      const result = wwwaxe(html)
+      expect(result).toContain('- One\n  - A\n  - B\n    1. x\n    2. y\n- Two')
+    })
+
+    it('respects start and reversed on ordered lists', () => {
+      expect(wwwaxe('<ol start="4"><li>d</li><li>e</li></ol>')).toContain('4. d\n5. e')
+      expect(wwwaxe('<ol reversed><li>c</li><li>b</li><li>a</li></ol>')).toContain('3. c\n2. b\n1. a')
+      expect(wwwaxe('<ol reversed start="10"><li>j</li><li>i</li></ol>')).toContain('10. j\n9. i')
+    })
+
+    it('renders multi-paragraph list items as indented continuation blocks', () => {
+      const html = '<ol><li><p>First paragraph</p><p>Second paragraph</p></li><li>Next</li></ol>'
+      const result = wwwaxe(html)
+      expect(result).toContain('1. First paragraph\n\n   Second paragraph\n2. Next')
+    })
+
+    it('nests a list placed directly inside a list under the previous item', () => {
+      const html = '<ul><li>Parent</li><ul><li>Child</li></ul><li>Sibling</li></ul>'
+      const result = wwwaxe(html)
+      expect(result).toContain('- Parent\n  - Child\n- Sibling')
+    })
+
+    it('keeps the markers of lists wrapped in a div or blockquote inside an item', () => {
+      expect(wwwaxe('<ul><li>One<div id="x"><ul><li>A</li><li>B</li></ul></div></li><li>Two</li></ul>'))
+        .toBe('- One\n  - A\n  - B\n- Two')
+      expect(wwwaxe('<ul><li>One<blockquote><ul><li>A</li><li>B</li></ul></blockquote></li><li>Two</li></ul>'))
+        .toBe('- One\n  > - A\n  > - B\n- Two')
+    })
+
     it('converts h1 to # text', () => {
       const result = wwwaxe('<h1>Title</h1>')
       expect(result).toContain('# Title')
@@ -519,6 +781,28 @@ describe('wwwaxe', () => {
       expect(result).toContain('plain preformatted')
     })
 
+    it('preserves indentation and newlines inside code blocks', () => {
+      const html = '<pre><code>function f() {\n  <span class="k">return</span> 1\n\n\n  // done\n}\n</code></pre>'
+      const result = wwwaxe(html)
+      expect(result).toContain('```\nfunction f() {\n  return 1\n\n\n  // done\n}\n```')
+    })
+
+    it('preserves whitespace inside pre in HTML mode', () => {
+      const result = wwwaxe('<pre>def f():\n    pass</pre>', { markdown: false })
+      expect(result).toContain('<pre>def f():\n    pass</pre>')
+    })
+
+    it('detects the code language for the fence info string', () => {
+      expect(wwwaxe('<pre><code class="hljs language-typescript">let x</code></pre>')).toContain('```typescript\nlet x\n```')
+      expect(wwwaxe('<pre class="lang-py">pass</pre>')).toContain('```py\npass\n```')
+      expect(wwwaxe('<pre data-language="rust">fn main() {}</pre>')).toContain('```rust\nfn main() {}\n```')
+    })
+
+    it('grows the fence when the code contains backticks', () => {
+      const result = wwwaxe('<pre>echo ```hi```</pre>')
+      expect(result).toContain('````\necho ```hi```\n````')
+    })
+
     it('converts hr to ---', () => {
       const result = wwwaxe('<p>above</p><hr><p>below</p>')
       expect(result).toContain('---')
@@ -556,6 +840,41 @@ describe('wwwaxe', () => {
       expect(result).toContain('**bold and *italic***')
     })
 
+    it('converts simple tables to GFM pipe tables', () => {
+      const html = '<table><thead><tr><th>Name</th><th>Age</th></tr></thead><tbody><tr><td><a href="/alice">Alice</a></td><td>30</td></tr><tr><td>Bob</td><td>25</td></tr></tbody></table>'
+      const result = wwwaxe(html)
+      expect(result).toContain('| Name | Age |\n| --- | --- |\n| [Alice](/alice) | 30 |\n| Bob | 25 |')
+      expect(result).not.toContain('<table')
+    })
+
+    it('uses a first row of th cells as the table header', () => {
+      const html = '<table><tr><th>Key</th><th>Value</th></tr><tr><td>a</td></tr></table>'
+      const result = wwwaxe(html)
+      expect(result).toContain('| Key | Value |\n| --- | --- |\n| a |  |')
+    })
+
+    it('escapes pipes inside table cells', () => {
+      const html = '<table><tr><th>Expr</th></tr><tr><td>a | b</td></tr></table>'
+      const result = wwwaxe(html)
+      expect(result).toContain('| a \\| b |')
+    })
+
+    it('keeps tables with colspan, block content or no header as HTML', () => {
+      const spanned = wwwaxe('<table><tr><th>A</th><th>B</th></tr><tr><td colspan="2">Wide</td></tr></table>')
+      expect(spanned).toContain('<table>')
+      const block = wwwaxe('<table><tr><th>A</th></tr><tr><td><p>One</p><p>Two</p></td></tr></table>')
+      expect(block).toContain('<table>')
+      const headerless = wwwaxe('<table><tr><td>A</td><td>B</td></tr></table>')
+      expect(headerless).toContain('<table>')
+    })
+
+    it('markdownTables: false keeps simple tables as HTML', () => {
+      const html = '<table><tr><th>Name</th></tr><tr><td>Alice</td></tr></table>'
+      const result = wwwaxe(html, { markdownTables: false })
+      expect(result).toContain('<th>Name</th>')
+      expect(result).toContain('<td>Alice</td>')
+    })
+
     it('markdown: false preserves HTML tags', () => {
       const result = wwwaxe('<p>some <strong>bold</strong> text</p>', { markdown: false })
       expect(result).not.toContain('**')
@@ -587,6 +906,229 @@ describe('wwwaxe', () => {
       expect(result).toContain('<ul>')
       expect(result).toContain('<li>')
     })
+
+    it('converts definition lists to term / definition pairs', () => {
+      const html = '<dl><dt>Token</dt><dd>A unit of text.</dd><dt>Chunk</dt><dt>Block</dt><dd>A slice of a <em>page</em>.</dd><dd>Sized for retrieval.</dd></dl>'
+      expect(wwwaxe(html)).toBe('**Token**\n: A unit of text.\n\n**Chunk**\n**Block**\n: A slice of a *page*.\n: Sized for retrieval.')
+    })
+
+    it('converts details to a bold summary followed by its body', () => {
+      const html = '<details><summary>Is it free?</summary><p>Yes, under the MIT license.</p></details>'
+      const result = wwwaxe(html)
+      expect(result).toContain('**Is it free?**\n\n<p>Yes, under the MIT license.</p>')
+      expect(result).not.toContain('<details')
+      expect(result).not.toContain('<summary')
+    })
+
+    it('converts figures to the image followed by its caption', () => {
+      const html = '<figure><figcaption>The harbor at dawn</figcaption><img src="https://example.com/harbor.jpg" alt="Harbor"></figure>'
+      expect(wwwaxe(html)).toBe('![Harbor](https://example.com/harbor.jpg)\n*The harbor at dawn*')
+    })
+
+    it('keeps dl, details and figure as HTML when their flags are off', () => {
+      const html = '<dl><dt>Term</dt><dd>Definition</dd></dl><details><summary>More</summary><p>Body</p></details><figure><img src="https://example.com/a.png" alt="A"><figcaption>Caption</figcaption></figure>'
+      const result = wwwaxe(html, { markdownDefinitionLists: false, markdownDetails: false, markdownFigures: false })
+      expect(result).toContain('<dl><dt>Term</dt><dd>Definition</dd></dl>')
+      expect(result).toContain('<details><summary>More</summary>')
+      expect(result).toContain('<figure>![A](https://example.com/a.png)<figcaption>Caption</figcaption></figure>')
+    })
+  })
+
+  describe('link styles', () => {
+    const html = '<p>Read the <a href="https://example.com/install">install guide</a>, then the <a href="https://example.com/api">API</a> and the <a href="https://example.com/install">guide</a> again.</p>'
+
+    it('renders reference links with a deduplicated link table', () => {
+      expect(wwwaxe(html, { linkStyle: 'reference' })).toBe(
+        '<p>Read the [install guide][1], then the [API][2] and the [guide][1] again.</p>\n\n' +
+        '[1]: https://example.com/install\n[2]: https://example.com/api',
+      )
+    })
+
+    it('ignores private-use delimiter characters in the page text', () => {
+      const page = '<p>x\uE001abc\uE002y <a href="https://example.com/\uE002">icon \uE001</a></p>'
+      expect(wwwaxe(page, { linkStyle: 'reference' })).toBe('<p>xabcy [icon ][1]</p>\n\n[1]: https://example.com/')
+    })
+
+    it('keeps only the link text with linkStyle none', () => {
+      expect(wwwaxe(html, { linkStyle: 'none' })).toBe('<p>Read the install guide, then the API and the guide again.</p>')
+    })
+
+    it('leaves links alone outside markdown mode', () => {
+      expect(wwwaxe(html, { markdown: false, linkStyle: 'none' })).toContain('<a href="https://example.com/api">API</a>')
+    })
+
+    it('drops trivial links when asked', () => {
+      const page = '<p>See <a href="#usage">usage</a>, <a href="https://www.example.com/">example.com</a>, <a href="mailto:a@example.com">a@example.com</a> and <a href="https://example.com/docs">the docs</a>.</p>'
+      expect(wwwaxe(page, { dropTrivialLinks: true })).toBe('<p>See usage, example.com, a@example.com and [the docs](https://example.com/docs).</p>')
+      expect(wwwaxe(page)).toContain('[usage](#usage)')
+    })
+  })
+
+  describe('images', () => {
+    const html = '<p>Gallery</p>' +
+      '<picture><source srcset="https://example.com/a.webp" type="image/webp"><img src="https://example.com/a.jpg" alt="Harbor"></picture>' +
+      '<img src="https://example.com/b.jpg" srcset="https://example.com/b-640.jpg 640w, https://example.com/b-1280.jpg 1280w" alt="Beach">' +
+      '<img src="https://www.facebook.com/tr?id=1&amp;ev=PageView" alt="pixel">' +
+      '<img src="https://example.com/spacer.gif" alt="spacer">' +
+      '<img src="https://example.com/track.png" width="1" height="1" alt="tracker">' +
+      '<img src="https://example.com/divider.png" alt="">'
+
+    it('keeps images by default', () => {
+      const result = wwwaxe(html)
+      expect(result).toContain('![Harbor](https://example.com/a.jpg)')
+      expect(result).toContain('![](https://example.com/divider.png)')
+    })
+
+    it('reduces images to their alt text', () => {
+      const result = wwwaxe(html, { images: 'alt-only' })
+      expect(result).toBe('<p>Gallery</p>[image: Harbor][image: Beach][image: pixel][image: spacer][image: tracker]')
+    })
+
+    it('drops images', () => {
+      const { content, stats } = wwwaxeDetailed(html, { images: 'drop' })
+      expect(content).toBe('<p>Gallery</p>')
+      expect(stats.removed.image).toBe(7)
+    })
+
+    it('drops pixels, spacers and images without alt text in smart mode', () => {
+      expect(wwwaxe(html, { images: 'smart' })).toBe(
+        '<p>Gallery</p>![Harbor](https://example.com/a.jpg)![Beach](https://example.com/b-1280.jpg)',
+      )
+    })
+
+    it('chooses the best candidate across picture sources in smart mode', () => {
+      const picture = '<picture>' +
+        '<source srcset="https://example.com/c-800.avif 800w, https://example.com/c-1600.avif 1600w" type="image/avif">' +
+        '<source srcset="https://example.com/c-1200.webp 1200w" type="image/webp">' +
+        '<img src="https://example.com/c.jpg" srcset="https://example.com/c-640.jpg 640w" alt="Cliffs"></picture>'
+      expect(wwwaxe(picture, { images: 'smart' })).toBe('![Cliffs](https://example.com/c-1600.avif)')
+      expect(wwwaxe('<img src="https://example.com/d.jpg" srcset="https://example.com/d@2x.jpg 2x" alt="D">', { images: 'smart' }))
+        .toBe('![D](https://example.com/d@2x.jpg)')
+    })
+
+    it('only treats images as pixels when both dimensions are at most 1px', () => {
+      const html = '<img src="https://example.com/rule.png" width="600" height="1" alt="Divider">' +
+        '<img src="https://example.com/lazy.jpg" style="width: 1px" height="400" alt="Lazy">'
+      expect(wwwaxe(html, { images: 'smart' })).toBe('![Divider](https://example.com/rule.png)![Lazy](https://example.com/lazy.jpg)')
+    })
+
+    it('keeps real images from hosts that also serve pixels', () => {
+      const html = '<img src="https://scontent.facebook.com/photo.jpg" alt="Photo">' +
+        '<img src="https://t.co/i/adsct?txn_id=1" alt="adsct">' +
+        '<img src="https://t.co/media/banner.png" alt="Banner">'
+      expect(wwwaxe(html, { images: 'smart' })).toBe('![Photo](https://scontent.facebook.com/photo.jpg)![Banner](https://t.co/media/banner.png)')
+    })
+
+    it('applies to HTML output too', () => {
+      const result = wwwaxe(html, { images: 'smart', markdown: false })
+      expect(result).toContain('<img src="https://example.com/b-1280.jpg" alt="Beach" />')
+      expect(result).not.toContain('<picture')
+      expect(result).not.toContain('facebook.com')
+    })
+  })
+
+  describe('accessibility tree output', () => {
+    it('renders roles, names and properties', () => {
+      const html = `<header><nav aria-label="Primary"><a href="/docs">Docs</a></nav></header>
+<main><h2>Pricing</h2><p>Plans for <strong>every</strong> team. See <a href="/faq">the FAQ</a>.</p>
+<ul><li>Unlimited seats</li></ul></main><footer>© 2024</footer>`
+      expect(wwwaxe(html, { output: 'a11y' })).toBe([
+        'banner',
+        '  navigation "Primary"',
+        '    link "Docs" /docs',
+        'main',
+        '  heading "Pricing" level=2',
+        '  paragraph',
+        '    text: Plans for every team. See',
+        '    link "the FAQ" /faq',
+        '    text: .',
+        '  list',
+        '    listitem: Unlimited seats',
+        'contentinfo: © 2024',
+      ].join('\n'))
+    })
+
+    it('names form controls from their labels', () => {
+      const html = `<form><label for="email">Email</label><input id="email" type="email" required>
+<label><input type="checkbox" name="tos"> I agree</label>
+<select aria-label="Plan"><option>Free</option><option selected>Pro</option></select>
+<textarea aria-label="Notes">Hello</textarea><input type="hidden" name="csrf" value="x">
+<button>Sign up</button></form>`
+      expect(wwwaxe(html, { output: 'a11y' })).toBe([
+        'form',
+        '  text: Email',
+        '  textbox "Email" required',
+        '  checkbox "I agree" unchecked',
+        '  text: I agree',
+        '  combobox "Plan"',
+        '    option "Free"',
+        '    option "Pro" selected',
+        '  textbox "Notes": Hello',
+        '  button "Sign up"',
+      ].join('\n'))
+    })
+
+    it('keeps names that point at ids when ids are stripped', () => {
+      const html = `<form><label for="email">Email address</label><input id="email" type="email">
+<h2 id="plan-title">Choose a plan</h2><div role="radiogroup" aria-labelledby="plan-title"><input type="radio" name="plan"></div></form>`
+      const expected = [
+        'form',
+        '  text: Email address',
+        '  textbox "Email address"',
+        '  heading "Choose a plan" level=2',
+        '  radiogroup "Choose a plan"',
+        '    radio unchecked',
+      ].join('\n')
+      expect(wwwaxe(html, { output: 'a11y' })).toBe(expected)
+      expect(wwwaxe(html, { output: 'a11y', keepIds: false })).toBe(expected)
+    })
+
+    it('uses explicit roles and naming children', () => {
+      const html = `<div role="tablist"><span role="tab">Overview</span><div role="presentation">Plain</div></div>
+<table><caption>Limits</caption><tr><th>Plan</th></tr><tr><td>Free</td></tr></table>
+<figure><img src="https://example.com/chart.png" alt="Chart"><figcaption>Growth</figcaption></figure>
+<img src="https://example.com/divider.png" alt="">`
+      expect(wwwaxe(html, { output: 'a11y' })).toBe([
+        'tablist',
+        '  tab "Overview"',
+        '  text: Plain',
+        'table "Limits"',
+        '  row',
+        '    columnheader "Plan"',
+        '  row',
+        '    cell "Free"',
+        'figure "Growth"',
+        '  img "Chart"',
+      ].join('\n'))
+    })
+
+    it('puts element references on their element line', () => {
+      const { content, refs } = wwwaxeDetailed('<p><a href="/a">A</a></p><label>Name <input name="n"></label>', { output: 'a11y', elementRefs: true })
+      expect(content).toBe('paragraph\n  link "A" /a [#1]\ntext: Name\ntextbox "Name" [#2]')
+      expect(Object.keys(refs!)).toEqual(['1', '2'])
+    })
+  })
+
+  describe('plain text output', () => {
+    it('separates blocks, list items and table rows', () => {
+      const html = `<main><h1>Pricing &amp; plans</h1><p>Plans for <strong>every</strong> team.<br>See <a href="/faq">the FAQ</a>.</p>
+<ul><li>One</li><li><p>Two</p><ul><li>Two.a</li></ul></li></ul>
+<table><tr><th>Plan</th><th>Seats</th></tr><tr><td>Free</td><td>3</td></tr></table>
+<img src="https://example.com/chart.png" alt="Chart"><dl><dt>Term</dt><dd>Definition</dd></dl></main>`
+      expect(wwwaxe(html, { output: 'text' })).toBe(
+        'Pricing & plans\n\nPlans for every team.\nSee the FAQ.\n\nOne\nTwo\nTwo.a\n\nPlan\tSeats\nFree\t3\n\nTerm\nDefinition',
+      )
+    })
+
+    it('keeps preformatted whitespace and drops form fields', () => {
+      const html = '<pre><code>  indented\ncode</code></pre><form><label>Email <input name="email"></label><button>Subscribe</button><button>Cancel</button></form>'
+      expect(wwwaxe(html, { output: 'text' })).toBe('  indented\ncode\n\nEmail Subscribe Cancel')
+    })
+
+    it('strips chrome in core mode', () => {
+      const html = '<nav><a href="/">Home</a></nav><main><p>Body text</p></main><footer>Footer</footer>'
+      expect(wwwaxe(html, { output: 'text', core: true })).toBe('Body text')
+    })
   })
 
   describe('real-world patterns', () => {
@@ -668,12 +1210,12 @@ describe('wwwaxe', () => {
       expect(result).toContain('Section Two')
       expect(result).toContain('First item')
 
-      // Links should be markdown format
-      expect(result).toContain('[About](/about)')
-      expect(result).toContain('[blog post](/post)')
+      // Links should be markdown format, resolved against the canonical URL
+      expect(result).toContain('[About](https://example.com/about)')
+      expect(result).toContain('[blog post](https://example.com/post)')
 
       // Images should be markdown format
-      expect(result).toContain('![A beautiful photo](/photo.jpg)')
+      expect(result).toContain('![A beautiful photo](https://example.com/photo.jpg)')
 
       // Should strip
       expect(result).not.toContain('<script')
@@ -734,6 +1276,506 @@ describe('wwwaxe', () => {
     })
   })
 
+  describe('URL resolution', () => {
+    it('leaves relative URLs alone when no base URL is known', () => {
+      const html = '<p><a href="/post">Post</a></p>'
+      const result = wwwaxe(html)
+      expect(result).toContain('[Post](/post)')
+    })
+
+    it('resolves links and images against the baseUrl option', () => {
+      const html = '<p><a href="post">Post</a><img src="/photo.jpg" alt="Photo"></p>'
+      const result = wwwaxe(html, { baseUrl: 'https://example.com/blog/' })
+      expect(result).toContain('[Post](https://example.com/blog/post)')
+      expect(result).toContain('![Photo](https://example.com/photo.jpg)')
+    })
+
+    it('resolves srcset, poster and action attributes', () => {
+      const html = '<img src="a.jpg" srcset="a.jpg 1x, /b.jpg 2x" alt="A"><video poster="/p.jpg" src="v.mp4" controls></video><form action="/search"><input name="q"></form>'
+      const result = wwwaxe(html, { markdown: false, baseUrl: 'https://example.com/x/' })
+      expect(result).toContain('srcset="https://example.com/x/a.jpg 1x, https://example.com/b.jpg 2x"')
+      expect(result).toContain('poster="https://example.com/p.jpg"')
+      expect(result).toContain('src="https://example.com/x/v.mp4"')
+      expect(result).toContain('action="https://example.com/search"')
+    })
+
+    it('prefers <base href> over the canonical URL', () => {
+      const html = '<html><head><base href="https://cdn.example.com/assets/"><link rel="canonical" href="https://example.com/page"></head><body><p><a href="doc">Doc</a></p></body></html>'
+      const result = wwwaxe(html)
+      expect(result).toContain('[Doc](https://cdn.example.com/assets/doc)')
+      expect(result).toContain('url: https://example.com/page')
+    })
+
+    it('resolves a relative <base href> against the baseUrl option', () => {
+      const html = '<html><head><base href="/docs/"></head><body><p><a href="intro">Intro</a></p></body></html>'
+      const result = wwwaxe(html, { baseUrl: 'https://example.com/home' })
+      expect(result).toContain('[Intro](https://example.com/docs/intro)')
+    })
+
+    it('falls back to og:url and resolves frontmatter image', () => {
+      const html = '<html><head><meta property="og:url" content="https://example.com/a/b"><meta property="og:image" content="/og.png"></head><body><p><a href="c">C</a></p></body></html>'
+      const result = wwwaxe(html)
+      expect(result).toContain('image: https://example.com/og.png')
+      expect(result).toContain('[C](https://example.com/a/c)')
+    })
+
+    it('resolves a relative canonical URL against the baseUrl option', () => {
+      const html = '<html><head><link rel="canonical" href="/canonical"></head><body><p>Hi</p></body></html>'
+      const result = wwwaxe(html, { baseUrl: 'https://example.com/some/page?ref=x' })
+      expect(result).toContain('url: https://example.com/canonical')
+    })
+
+    it('keeps fragment-only links relative', () => {
+      const html = '<p><a href="#section">Jump</a></p>'
+      const result = wwwaxe(html, { baseUrl: 'https://example.com/page' })
+      expect(result).toContain('[Jump](#section)')
+    })
+  })
+
+  describe('token budget', () => {
+    const items = Array.from({ length: 8 }, (_, i) => '<li>List item number ' + i + ' with some words</li>').join('')
+    const page = '<html><head><title>Budget</title></head><body><main>' +
+      '<h1>Title</h1><p>Intro paragraph that matters a lot.</p>' +
+      '<ul>' + items + '</ul>' +
+      '<table><tr><th>A</th></tr><tr><td>1</td></tr></table>' +
+      '<img src="/a.png" alt="pic">' +
+      '<h2>Second</h2><p>' + 'Second section text. '.repeat(10) + '</p>' +
+      '<h2>Third</h2><p>' + 'Third section text. '.repeat(10) + '</p>' +
+      '</main></body></html>'
+
+    it('leaves output untouched when it fits', () => {
+      expect(wwwaxe(page, { maxChars: 100000 })).toBe(wwwaxe(page))
+    })
+
+    it('drops trailing sections first and marks the omission', () => {
+      const result = wwwaxe(page, { maxChars: 600 })
+      expect(result.length).toBeLessThanOrEqual(600)
+      expect(result).toContain('List item number 7')
+      expect(result).not.toContain('Second section')
+      expect(result).not.toContain('Third section')
+      expect(result).toContain('[… content omitted]')
+    })
+
+    it('drops long lists before tables and images', () => {
+      const result = wwwaxe(page, { maxChars: 300 })
+      expect(result.length).toBeLessThanOrEqual(300)
+      expect(result).toContain('[… list omitted]')
+      expect(result).not.toContain('List item')
+      expect(result).toContain('| A |')
+      expect(result).toContain('![pic](/a.png)')
+    })
+
+    it('always keeps the frontmatter and leading heading', () => {
+      const result = wwwaxe(page, { maxChars: 10 })
+      expect(result).toMatch(/^---\ntitle: Budget\n---/)
+      expect(result).toContain('# Title')
+      expect(result).toContain('[… content omitted]')
+      expect(result).not.toContain('Intro paragraph')
+    })
+
+    it('uses a custom token estimator for maxTokens', () => {
+      const words = (text: string) => text.split(/\s+/).filter(Boolean).length
+      const result = wwwaxe(page, { maxTokens: 80, tokenEstimator: words })
+      expect(words(result)).toBeLessThanOrEqual(80)
+      expect(result).toContain('Intro paragraph')
+      expect(result).not.toContain('Third section')
+    })
+  })
+
+  describe('wwwaxeDetailed', () => {
+    const html = '<html><head><title>Post</title><link rel="canonical" href="https://example.com/post"><meta name="generator" content="x"></head>' +
+      '<body><!-- c --><header><nav><a href="/">Home</a></nav></header><script>x()</script><p hidden>Hidden</p>' +
+      '<main><div><p>This is the article body with enough text to count as real content.</p></div><p></p></main></body></html>'
+
+    it('returns frontmatter data and content separately', () => {
+      const result = wwwaxeDetailed(html)
+      expect(result.frontmatter).toEqual({ title: 'Post', url: 'https://example.com/post' })
+      expect(result.content).not.toContain('---')
+      expect(result.content).toContain('article body')
+    })
+
+    it('wwwaxe() output matches frontmatter plus content', () => {
+      const result = wwwaxeDetailed(html, { core: true })
+      expect(wwwaxe(html, { core: true })).toBe('---\ntitle: Post\nurl: https://example.com/post\n---\n' + result.content)
+      expect(result.stats.outputLength).toBe(wwwaxe(html, { core: true }).length)
+      expect(result.stats.inputLength).toBe(html.length)
+    })
+
+    it('counts removed elements by reason', () => {
+      const { removed } = wwwaxeDetailed(html, { core: true }).stats
+      expect(removed.comment).toBe(1)
+      expect(removed.tag).toBe(1)
+      expect(removed.hidden).toBe(1)
+      expect(removed.meta).toBe(1)
+      expect(removed.empty).toBe(1)
+      expect(removed.unwrapped).toBe(1)
+      expect(removed.chrome).toBe(1)
+      expect(removed.budget).toBe(0)
+    })
+
+    it('reports the core-content strategy', () => {
+      expect(wwwaxeDetailed(html).stats.coreStrategy).toBe('none')
+      expect(wwwaxeDetailed(html, { core: true }).stats.coreStrategy).toBe('main')
+      expect(wwwaxeDetailed('<body><article><p>Text</p></article></body>', { core: true }).stats.coreStrategy).toBe('article')
+      expect(wwwaxeDetailed('<body><div id="content"><p>Text</p></div></body>', { core: true }).stats.coreStrategy).toBe('well-known-id')
+      expect(wwwaxeDetailed('<body><p>Text</p></body>', { core: true }).stats.coreStrategy).toBe('body')
+    })
+  })
+
+  describe('form summaries', () => {
+    const form = `<form method="post" action="/signup" class="signup">
+      <input type="hidden" name="csrf" value="abc123">
+      <label for="email">Email address</label><input id="email" type="email" name="email" required>
+      <label>Password <input type="password" name="pw" required></label>
+      <input type="search" name="q" aria-label="Search">
+      <span id="country-label">Country</span>
+      <select name="country" aria-labelledby="country-label"><option value="us">United States</option><option value="ca" selected>Canada</option></select>
+      <textarea name="bio" placeholder="About you">Hi there</textarea>
+      <label><input type="checkbox" name="news" value="yes" checked> Send me news</label>
+      <button type="button">Cancel</button>
+      <button>Create account</button>
+    </form>`
+
+    it('keeps forms as HTML by default', () => {
+      expect(wwwaxe(form)).toContain('<form method="post" action="/signup">')
+    })
+
+    it('lists the method, action, fields and submit buttons', () => {
+      const result = wwwaxe(form, { forms: 'summary', baseUrl: 'https://example.com/' })
+      expect(result).toContain('Form: POST https://example.com/signup')
+      expect(result).toContain('- Email address (type: email, name: email, required)')
+      expect(result).toContain('- Password (type: password, name: pw, required)')
+      expect(result).toContain('- Search (type: search, name: q)')
+      expect(result).toContain('- Country (type: select, name: country, value: ca, options: United States=us | Canada=ca)')
+      expect(result).toContain('- About you (type: textarea, name: bio, value: Hi there)')
+      expect(result).toContain('- Send me news (type: checkbox, name: news, value: yes, checked)')
+      expect(result).toContain('- Submit: Create account')
+      expect(result).not.toContain('<form')
+    })
+
+    it('leaves out hidden inputs and non-submit buttons', () => {
+      const result = wwwaxe(form, { forms: 'summary' })
+      expect(result).not.toContain('csrf')
+      expect(result).not.toContain('Cancel')
+    })
+
+    it('resolves labels before ids are stripped', () => {
+      const result = wwwaxe(form, { forms: 'summary', keepIds: false, markdown: false })
+      expect(result).toContain('<li>Email address (type: email, name: email, required)</li>')
+      expect(result).toContain('<li>Country (type: select')
+    })
+
+    it('defaults to GET and falls back to the field name', () => {
+      const result = wwwaxe('<form><input name="token"><input type="submit" value="Go"></form>', { forms: 'summary' })
+      expect(result).toContain('Form: GET')
+      expect(result).toContain('- token (type: text, name: token)')
+      expect(result).toContain('- Submit: Go')
+    })
+  })
+
+  describe('element references', () => {
+    const html = `<html><body><nav><a href="/">Home</a></nav><main>
+      <p>Read <a href="/a">A</a> and <a href="/b">B</a></p>
+      <form><input id="q" name="q"><input type="hidden" name="token"><button class="btn">Go</button></form>
+    </main></body></html>`
+
+    it('is off by default', () => {
+      const result = wwwaxeDetailed(html)
+      expect(result.content).not.toContain('[#')
+      expect(result.refs).toBeUndefined()
+    })
+
+    it('marks kept links and controls in document order', () => {
+      const result = wwwaxeDetailed(html, { elementRefs: true, core: true })
+      expect(result.content).toContain('[A](/a) [#1] and [B](/b) [#2]')
+      expect(result.content).toContain('<input id="q" name="q" /> [#3]')
+      expect(result.content).toContain('<button>Go</button> [#4]')
+      expect(Object.keys(result.refs!)).toEqual(['1', '2', '3', '4'])
+    })
+
+    it('maps references to selectors and XPaths in the original document', () => {
+      const { refs } = wwwaxeDetailed(html, { elementRefs: true, core: true, keepIds: false })
+      expect(refs![1]).toEqual({ selector: 'html > body > main > p > a:nth-of-type(1)', xpath: '/html/body/main/p/a[1]' })
+      expect(refs![3]).toEqual({ selector: '#q', xpath: '//*[@id="q"]' })
+      expect(refs![4]).toEqual({ selector: 'html > body > main > form > button', xpath: '/html/body/main/form/button' })
+    })
+
+    it('accounts for the implicit tbody of table rows', () => {
+      const { refs } = wwwaxeDetailed('<table><tr><td><a href="/x">X</a></td></tr></table>', { elementRefs: true })
+      expect(refs![1].selector).toBe('table > tbody > tr > td > a')
+      expect(refs![1].xpath).toBe('//table/tbody/tr/td/a')
+    })
+
+    it('drops references whose element was trimmed by the budget', () => {
+      const links = Array.from({ length: 40 }, (_, i) => `<li><a href="/p${i}">Page number ${i}</a></li>`).join('')
+      const result = wwwaxeDetailed(`<h1>Title</h1><p><a href="/intro">Intro</a></p><h2>More</h2><ul>${links}</ul>`, { elementRefs: true, maxChars: 120 })
+      expect(result.refs![1]).toBeDefined()
+      for (const ref of Object.keys(result.refs!)) expect(result.content).toContain('[#' + ref + ']')
+      expect(Object.keys(result.refs!).length).toBeLessThan(41)
+    })
+  })
+
+  describe('selector filters', () => {
+    const html = `<html><head><title>Post</title></head><body>
+      <nav><a href="/">Home</a></nav>
+      <div class="post-body"><p>First part</p><div data-ad="top"><p>Buy now</p></div></div>
+      <div class="related-posts"><p>Related</p></div>
+      <div class="post-body"><p>Second part</p></div>
+    </body></html>`
+
+    it('keeps only the included regions, in document order', () => {
+      const result = wwwaxeDetailed(html, { include: '.post-body' })
+      expect(result.content).toBe('<p>First part</p><p>Buy now</p><p>Second part</p>')
+      expect(result.frontmatter.title).toBe('Post')
+    })
+
+    it('removes excluded elements before classes and data attributes are stripped', () => {
+      const result = wwwaxeDetailed(html, { exclude: ['[data-ad]', '.related-posts'] })
+      expect(result.content).not.toContain('Buy now')
+      expect(result.content).not.toContain('Related')
+      expect(result.content).toContain('Home')
+      expect(result.stats.removed.excluded).toBe(2)
+    })
+
+    it('combines include and exclude', () => {
+      expect(wwwaxe(html, { include: '.post-body', exclude: '[data-ad]' })).toBe('---\ntitle: Post\n---\n<p>First part</p><p>Second part</p>')
+    })
+
+    it('keeps the whole page when include matches nothing', () => {
+      expect(wwwaxe(html, { include: '#missing' })).toBe(wwwaxe(html))
+    })
+
+    it('rejects invalid selectors', () => {
+      expect(() => wwwaxe(html, { include: 'div[' })).toThrow(WwwaxeConfigError)
+      expect(() => wwwaxe(html, { exclude: ['.ok', '>>'] })).toThrow('Invalid selector in exclude: ">>"')
+    })
+  })
+
+  describe('plugins', () => {
+    const wiki = '<html><head><title>HTML</title></head><body><main>' +
+      '<h2>History<span class="mw-editsection">[<a href="/edit">edit</a>]</span></h2>' +
+      '<div class="note"><p>Note text</p></div><p>Body text</p></main></body></html>'
+    const baseUrl = 'https://en.wikipedia.org/wiki/HTML'
+    const editLinks: WwwaxePlugin = {
+      name: 'wikipedia',
+      match: '*.wikipedia.org',
+      element: (el) => el.attribs.class === 'mw-editsection' ? 'remove' : undefined,
+    }
+
+    it('removes elements by their original attributes', () => {
+      const result = wwwaxeDetailed(wiki, { baseUrl, plugins: [editLinks] })
+      expect(result.content).toContain('## History')
+      expect(result.content).not.toContain('edit')
+      expect(result.stats.removed.plugin).toBe(1)
+    })
+
+    it('unwraps and replaces elements, cleaning up the result', () => {
+      const plugin: WwwaxePlugin = {
+        name: 'rewrite',
+        element: (el) => {
+          if (el.attribs.class === 'mw-editsection') return 'unwrap'
+          if (el.attribs.class === 'note') return '<blockquote class="x" onclick="go()">Replaced</blockquote>'
+        },
+      }
+      const result = wwwaxe(wiki, { plugins: [plugin] })
+      expect(result).toContain('## History[[edit](/edit)]')
+      expect(result).toContain('> Replaced')
+      expect(result).not.toContain('Note text')
+      expect(result).not.toContain('onclick')
+    })
+
+    it('does not pass replacement markup back to the element hooks', () => {
+      let calls = 0
+      const plugin: WwwaxePlugin = {
+        name: 'self-matching',
+        element: (el) => {
+          if (el.attribs.class !== 'ad') return
+          calls++
+          return '<span class="ad">b</span>'
+        },
+      }
+      expect(wwwaxe('<p>a<span class="ad">x</span></p>', { plugins: [plugin] })).toBe('<p>ab</p>')
+      expect(calls).toBe(1)
+    })
+
+    it('only applies plugins whose matcher accepts baseUrl', () => {
+      const run = (match: WwwaxePlugin['match'], url?: string) =>
+        wwwaxe(wiki, { baseUrl: url, plugins: [{ ...editLinks, match }] }).includes('edit')
+      expect(run('*.wikipedia.org', baseUrl)).toBe(false)
+      expect(run('wikipedia.org', baseUrl)).toBe(true)
+      expect(run('en.wikipedia.org/wiki/', baseUrl)).toBe(false)
+      expect(run('en.wikipedia.org/w/', baseUrl)).toBe(true)
+      expect(run(/\/wiki\/HTML$/, baseUrl)).toBe(false)
+      expect(run((url) => url.protocol === 'http:', baseUrl)).toBe(true)
+      expect(run(['github.com', 'en.wikipedia.org'], baseUrl)).toBe(false)
+      expect(run('*.wikipedia.org')).toBe(true)
+      expect(run(undefined)).toBe(false)
+    })
+
+    it('matches the page URL from <base href>, canonical or og:url without baseUrl', () => {
+      const calls: string[] = []
+      const plugin: WwwaxePlugin = {
+        ...editLinks,
+        preParse: (_html, context) => { calls.push(context.url!.href) },
+      }
+      const withHead = (head: string) => wiki.replace('</head>', head + '</head>')
+      for (const head of [
+        '<base href="https://en.wikipedia.org/wiki/">',
+        '<link rel="canonical" href="https://en.wikipedia.org/wiki/HTML">',
+        '<meta property="og:url" content="https://en.wikipedia.org/wiki/HTML">',
+      ]) {
+        expect(wwwaxe(withHead(head), { plugins: [plugin] })).not.toContain('edit')
+      }
+      expect(calls).toEqual(['https://en.wikipedia.org/wiki/', baseUrl, baseUrl])
+      expect(wwwaxe(withHead('<link rel="canonical" href="https://example.com/">'), { plugins: [plugin] })).toContain('edit')
+    })
+
+    it('runs the parse, document and serialize hooks in pipeline order', () => {
+      const calls: string[] = []
+      const plugin: WwwaxePlugin = {
+        name: 'stages',
+        preParse: (html) => {
+          calls.push('preParse')
+          return html.replace('<title>HTML</title>', '<title>Renamed</title>')
+        },
+        postParse: (doc, context) => {
+          calls.push('postParse')
+          expect(context.url?.hostname).toBe('en.wikipedia.org')
+          // Still raw: scripts and classes are present
+          expect(render(doc)).toContain('class="note"')
+        },
+        preMarkdown: (doc) => {
+          calls.push('preMarkdown')
+          expect(render(doc)).toContain('<p>Body text</p>')
+        },
+        postSerialize: (output) => {
+          calls.push('postSerialize')
+          return output + '\n\n(via plugin)'
+        },
+      }
+      const result = wwwaxeDetailed(wiki, { baseUrl, plugins: [plugin] })
+      expect(calls).toEqual(['preParse', 'postParse', 'preMarkdown', 'postSerialize'])
+      expect(result.frontmatter.title).toBe('Renamed')
+      expect(result.content.endsWith('(via plugin)')).toBe(true)
+    })
+  })
+
+  describe('configurable lists', () => {
+    it('keeps iframes once they are no longer removed', () => {
+      const html = '<p>Watch</p><iframe src="https://video.example/embed/1" class="player"></iframe>'
+      expect(wwwaxe(html)).not.toContain('iframe')
+      expect(wwwaxe(html, { removeTags: { remove: ['iframe'] } })).toContain('<iframe src="https://video.example/embed/1"></iframe>')
+    })
+
+    it('keeps extra content attributes', () => {
+      const html = '<article><p itemprop="description">Summary</p></article>'
+      expect(wwwaxe(html, { contentAttributes: ['itemprop'] })).toContain('<p itemprop="description">Summary</p>')
+    })
+
+    it('tries added content ids before the defaults in core mode', () => {
+      const body = 'Article body text that is long enough to count as content.'
+      const html = `<div id="content"><div class="ad"><p>Sidebar promo</p></div><div id="article-body"><p>${body}</p></div></div>`
+      const result = wwwaxeDetailed(html, { core: true, contentIds: ['article-body'] })
+      expect(result.stats.coreStrategy).toBe('well-known-id')
+      expect(result.content).toContain(body)
+      expect(result.content).not.toContain('Sidebar promo')
+    })
+
+    it('edits and replaces the chrome lists', () => {
+      const html = '<main><p>Main text long enough to be treated as the main content.</p><div role="search"><p>Search box</p></div><aside><p>Related</p></aside></main>'
+      expect(wwwaxe(html, { core: true })).not.toContain('Search box')
+      const result = wwwaxe(html, { core: true, chromeRoles: { remove: ['search'] }, chromeTags: { replace: ['nav'] } })
+      expect(result).toContain('Search box')
+      expect(result).toContain('Related')
+    })
+
+    it('exposes the resolved configuration', () => {
+      const config = resolveConfig({ keepTags: ['X-Widget'], unwrapTags: { remove: ['span'] } })
+      expect(config.keepTags).toContain('x-widget')
+      expect(config.unwrapTags).not.toContain('span')
+      expect(config.unwrapTags).not.toContain('strong')
+      expect(resolveConfig({ markdown: false }).unwrapTags).toContain('strong')
+      expect(resolveConfig().contentIds).toEqual(['main-content', 'content', 'main', 'page-content', 'site-content'])
+    })
+
+    it('rejects invalid overrides', () => {
+      expect(() => wwwaxe('<p>x</p>', { keepTags: ['iframe'] })).toThrow(WwwaxeConfigError)
+      expect(() => resolveConfig({ keepTags: ['iframe'] })).toThrow('"iframe" cannot be in both removeTags and keepTags')
+      expect(() => resolveConfig({ removeTags: ['not a tag'] })).toThrow('Invalid entry in removeTags')
+      expect(() => resolveConfig({ chromeTags: { remove: ['header'] } })).toThrow('not in the list')
+      expect(() => resolveConfig({ contentAttributes: ['onclick'] })).toThrow(WwwaxeConfigError)
+      expect(() => resolveConfig({ contentAttributes: ['class'] })).toThrow('use keepIds, keepClasses or keepDataAttributes')
+      expect(() => resolveConfig({ contentIds: { replace: ['a'], add: ['b'] } as never })).toThrow('replace cannot be combined')
+    })
+  })
+
+  describe('hydration extraction', () => {
+    const spa = readFileSync(join(__dirname, 'fixtures/empty-main-spa.html'), 'utf8')
+    const story = 'The harbor town rebuilt its lighthouse after the storm, and the keepers returned in spring.'
+    const withScript = (script: string) => spa.replace('</body>', script + '</body>')
+
+    it('is off by default', () => {
+      const html = withScript(`<script id="__NEXT_DATA__" type="application/json">{"props":{"pageProps":{"body":"${story}"}}}</script>`)
+      expect(wwwaxe(html, { core: true })).not.toContain('harbor town')
+    })
+
+    it('extracts readable strings from __NEXT_DATA__', () => {
+      const data = { props: { pageProps: { post: { slug: 'harbor-town', className: 'flex items-center justify-between gap-4 px-2 md:px-4', body: story } } } }
+      const html = withScript(`<script id="__NEXT_DATA__" type="application/json">${JSON.stringify(data)}</script>`)
+      const result = wwwaxe(html, { core: true, hydration: true })
+      expect(result).toContain(story)
+      expect(result).not.toContain('harbor-town')
+      expect(result).not.toContain('justify-between')
+    })
+
+    it('keeps rich-text fields as markup', () => {
+      const data = { props: { pageProps: { html: `<h2>Lighthouse</h2><p>${story}</p>` } } }
+      const html = withScript(`<script id="__NEXT_DATA__" type="application/json">${JSON.stringify(data)}</script>`)
+      const result = wwwaxe(html, { core: true, hydration: true })
+      expect(result).toContain('## Lighthouse')
+      expect(result).toContain(story)
+    })
+
+    it('reads Next.js RSC flight chunks', () => {
+      const flight = `1:["$","p",null,{"children":"${story}"}]\n2:T43,A second paragraph streamed as a raw text row for the article body.`
+      const html = withScript(`<script>self.__next_f.push([1,${JSON.stringify(flight)}])</script>`)
+      const result = wwwaxe(html, { hydration: true })
+      expect(result).toContain(story)
+      expect(result).toContain('A second paragraph streamed as a raw text row')
+    })
+
+    it('reads flight text rows by their declared byte length', () => {
+      const text = 'First line of a text row about the café.\nSecond line of the same row, still one string.'
+      const length = Buffer.byteLength(text).toString(16)
+      const flight = `2:T${length},${text}3:["$","p",null,{"children":"A JSON row that follows the text row without a newline."}]\n`
+      const result = wwwaxe(withScript(`<script>self.__next_f.push([1,${JSON.stringify(flight)}])</script>`), { hydration: true })
+      expect(result).toContain('Second line of the same row, still one string.')
+      expect(result).toContain('A JSON row that follows the text row without a newline.')
+      expect(result).not.toContain('string.3:')
+    })
+
+    it('reads flight chunks containing ]) inside strings', () => {
+      const flight = `1:["$","p",null,{"children":"Call push([1]) and the parser must not stop at the bracket."}]\n`
+      const script = `<script>self.__next_f.push([1,${JSON.stringify(flight)}]);self.__next_f.push([1,${JSON.stringify(`2:["$","p",null,{"children":"${story}"}]\n`)}])</script>`
+      const result = wwwaxe(withScript(script), { hydration: true })
+      expect(result).toContain('the parser must not stop at the bracket.')
+      expect(result).toContain(story)
+    })
+
+    it('reads __NUXT__ and __APOLLO_STATE__ payloads', () => {
+      const nuxt = `<script>window.__NUXT__=(function(a){return {data:[{intro:"${story}"}]}}(1))</script>`
+      const apollo = `<script>window.__APOLLO_STATE__ = {"Post:1":{"__typename":"Post","excerpt":"Apollo caches the excerpt of this post for the client to hydrate."}};</script>`
+      const result = wwwaxe(withScript(nuxt + apollo), { hydration: true })
+      expect(result).toContain(story)
+      expect(result).toContain('Apollo caches the excerpt')
+    })
+
+    it('is not used when the rendered page has enough text', () => {
+      const html = `<main><p>${story.repeat(3)}</p></main><script id="__NEXT_DATA__" type="application/json">{"body":"A different hydration-only sentence that should stay out."}</script>`
+      expect(wwwaxe(html, { hydration: true })).not.toContain('hydration-only')
+    })
+  })
+
   describe('data URI stripping', () => {
     const bigDataUri = 'data:image/png;base64,' + 'A'.repeat(100000)
     const smallDataUri = 'data:image/svg+xml;base64,PHN2Zz4='